@@ -0,0 +1,17 @@
+// In-memory stand-in for the Keychain / EncryptedSharedPreferences module.
+const items = new Map();
+
+const EncryptedStorage = {
+  getItem: jest.fn(async (key) => (items.has(key) ? items.get(key) : null)),
+  setItem: jest.fn(async (key, value) => {
+    items.set(key, value);
+  }),
+  removeItem: jest.fn(async (key) => {
+    items.delete(key);
+  }),
+  clear: jest.fn(async () => {
+    items.clear();
+  }),
+};
+
+module.exports = { __esModule: true, default: EncryptedStorage };
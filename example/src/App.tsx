@@ -15,14 +15,21 @@ import {
     Modal,
     FlatList
 } from 'react-native';
-import { Softphone } from 'react-native-softphone-sdk';
+import { Softphone, useCallTimer, type CallEndReason, type CallState, type Session } from 'react-native-softphone-sdk';
 
 const FREJUN_CREDENTIALS = {
     clientId: '<Client-id>',
     clientSecret: '<Client-secret>',
 };
 
-type CallState = 'Idle' | 'Dialing' | 'Ringing' | 'Incoming' | 'Active';
+const formatDuration = (seconds: number) =>
+    `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+
+// Its own component so only the timer re-renders every second.
+const CallTimer = ({ session }: { session: Session | null }) => {
+    const seconds = useCallTimer(session);
+    return <Text style={styles.timer}>{formatDuration(seconds)}</Text>;
+};
 
 const App = () => {
     const [softphone, setSoftphone] = useState<Softphone | null>(null);
@@ -30,11 +37,17 @@ const App = () => {
 
     // UI State
     const [connectionStatus, setConnectionStatus] = useState<'Disconnected' | 'Connecting' | 'Connected'>('Disconnected');
-    const [callState, setCallState] = useState<CallState>('Idle');
-
-    // Refs for Logic (To avoid stale closures in listeners)
-    const callStateRef = useRef<CallState>('Idle');
-    const activeSession = useRef<any>(null);
+    // null while there is no call
+    const [callState, setCallState] = useState<CallState | null>(null);
+    const [isIncoming, setIsIncoming] = useState(false);
+
+    // Ref for Logic (To avoid stale closures in listeners)
+    const activeSession = useRef<Session | null>(null);
+    // Call waiting: a second incoming call, and the call put on hold to answer it
+    const waitingSession = useRef<Session | null>(null);
+    const heldSession = useRef<Session | null>(null);
+    const [waitingContact, setWaitingContact] = useState('');
+    const [heldContact, setHeldContact] = useState('');
 
     const [remoteContact, setRemoteContact] = useState('');
     const [dialNumber, setDialNumber] = useState('');
@@ -42,12 +55,6 @@ const App = () => {
     const [selectedNumber, setSelectedNumber] = useState<string | null>(null);
     const [showVnPicker, setShowVnPicker] = useState(false);
 
-    // Helper to update state and ref simultaneously
-    const updateCallState = (newState: CallState) => {
-        setCallState(newState);
-        callStateRef.current = newState;
-    };
-
     // 1. INITIALIZATION
     useEffect(() => {
         const init = async () => {
@@ -106,37 +113,48 @@ const App = () => {
                         break;
                 }
             },
-            onCallCreated: (type: any, session: any, details: any) => {
+            onCallCreated: (type: any, session: Session, details: any) => {
                 console.log("Call Created:", type);
-
-                // Use Ref here to check current state without dependency issues
-                if (type === 'Incoming' && callStateRef.current === 'Incoming') {
-                    activeSession.current = session;
+                // Keep the current call in focus; a second incoming call is call waiting.
+                if (activeSession.current) {
+                    if (details?.isCallWaiting && !waitingSession.current) {
+                        waitingSession.current = session;
+                        setWaitingContact(details?.candidate || 'Unknown');
+                    }
                     return;
                 }
 
                 activeSession.current = session;
-                const contact = details?.candidate || 'Unknown';
-                setRemoteContact(contact);
-                updateCallState(type === 'Incoming' ? 'Incoming' : 'Dialing');
+                setRemoteContact(details?.candidate || 'Unknown');
+                setIsIncoming(session.direction === 'Incoming');
+                setCallState(session.callState);
             },
-            onCallRinging: () => {
-                console.log("Call Ringing");
-                updateCallState('Ringing');
-            },
-            onCallAnswered: (session: any) => {
-                console.log("Call Answered");
-                updateCallState('Active');
-                activeSession.current = session;
+            onCallStateChange: (session: Session, from: CallState, to: CallState) => {
+                console.log(`Call State: ${from} -> ${to}`);
+                if (to === 'ended' && waitingSession.current === session) {
+                    waitingSession.current = null;
+                    setWaitingContact('');
+                }
+                if (to === 'ended' && heldSession.current === session) {
+                    heldSession.current = null;
+                    setHeldContact('');
+                }
+                if (activeSession.current !== session) return;
+
+                if (to === 'ended') {
+                    // Bring back the call that was held for the waiting one, if any
+                    const held = heldSession.current;
+                    heldSession.current = null;
+                    setHeldContact('');
+                    activeSession.current = held;
+                    setCallState(held ? held.callState : null);
+                    setRemoteContact(held ? held.remoteContact || 'Unknown' : '');
+                } else {
+                    setCallState(to);
+                }
             },
-            onCallHangup: (session: any) => {
-                console.log("Call Hangup");
-                // Ensure we don't clear state if a different session ended (edge case)
-                if (activeSession.current && activeSession.current !== session) return;
-
-                updateCallState('Idle');
-                setRemoteContact('');
-                activeSession.current = null;
+            onCallHangup: (_session: Session, reason: CallEndReason) => {
+                console.log("Call Hangup", reason.type);
             }
         };
 
@@ -210,6 +228,33 @@ const App = () => {
         }
     };
 
+    const handleResume = async () => {
+        if (activeSession.current) {
+            try { await activeSession.current.unhold(); } catch (e) { console.error(e); }
+        }
+    };
+
+    // Answering puts the current call on hold; it resumes here once the new call ends.
+    const handleAnswerWaiting = async () => {
+        const waiting = waitingSession.current;
+        if (!waiting) return;
+        waitingSession.current = null;
+        heldSession.current = activeSession.current;
+        setHeldContact(remoteContact);
+        activeSession.current = waiting;
+        setRemoteContact(waitingContact);
+        setWaitingContact('');
+        setIsIncoming(true);
+        setCallState(waiting.callState);
+        try { await waiting.answer(); } catch (e) { console.error(e); }
+    };
+
+    const handleRejectWaiting = async () => {
+        if (waitingSession.current) {
+            try { await waitingSession.current.reject({ statusCode: 486 }); } catch (e) { console.error(e); }
+        }
+    };
+
     if (isLoading) return <View style={styles.centerContainer}><ActivityIndicator size="large" color="#2196F3" /></View>;
 
     if (!softphone) {
@@ -223,7 +268,8 @@ const App = () => {
         );
     }
 
-    const isDarkCard = callState === 'Active' || callState === 'Dialing' || callState === 'Ringing';
+    const isRingingIn = isIncoming && callState === 'ringing';
+    const isDarkCard = callState !== null && !isRingingIn;
 
     return (
         <SafeAreaView style={styles.container}>
@@ -237,7 +283,18 @@ const App = () => {
             </View>
 
             <View style={styles.content}>
-                {callState === 'Incoming' && (
+                {!!waitingContact && (
+                    <View style={[styles.card, styles.incomingCard, styles.waitingCard]}>
+                        <Text style={[styles.cardTitle, { color: '#333' }]}>Call Waiting</Text>
+                        <Text style={[styles.callerId, { color: '#333' }]}>{waitingContact}</Text>
+                        <View style={styles.row}>
+                            <TouchableOpacity style={[styles.circleBtn, { backgroundColor: '#F44336' }]} onPress={handleRejectWaiting}><Text style={styles.iconText}>✕</Text></TouchableOpacity>
+                            <TouchableOpacity style={[styles.circleBtn, { backgroundColor: '#4CAF50' }]} onPress={handleAnswerWaiting}><Text style={styles.iconText}>✓</Text></TouchableOpacity>
+                        </View>
+                    </View>
+                )}
+
+                {isRingingIn && (
                     <View style={[styles.card, styles.incomingCard]}>
                         <Text style={[styles.cardTitle, { color: '#333' }]}>📞 Incoming Call</Text>
                         <Text style={[styles.callerId, { color: '#333' }]}>{remoteContact}</Text>
@@ -250,15 +307,19 @@ const App = () => {
 
                 {isDarkCard && (
                     <View style={[styles.card, styles.activeCard]}>
-                        <Text style={[styles.cardTitle, { color: '#CCC' }]}>{callState === 'Active' ? 'In Call' : 'Calling...'}</Text>
+                        <Text style={[styles.cardTitle, { color: '#CCC' }]}>{callState === 'connected' ? 'In Call' : callState}</Text>
                         <Text style={[styles.callerId, { color: '#FFF' }]}>{remoteContact}</Text>
-                        {callState === 'Active' && <Text style={styles.timer}>00:00</Text>}
-                        {callState === 'Dialing' && <ActivityIndicator color="#FFF" style={{ marginBottom: 20 }} />}
+                        {callState === 'connected' && <CallTimer session={activeSession.current} />}
+                        {callState === 'dialing' && <ActivityIndicator color="#FFF" style={{ marginBottom: 20 }} />}
+                        {!!heldContact && <Text style={styles.heldText}>On hold: {heldContact}</Text>}
+                        {callState === 'on-hold' && (
+                            <TouchableOpacity style={styles.resumeBtn} onPress={handleResume}><Text style={styles.btnText}>Resume</Text></TouchableOpacity>
+                        )}
                         <TouchableOpacity style={[styles.circleBtn, { backgroundColor: '#F44336', width: 70, height: 70 }]} onPress={handleHangup}><Text style={styles.iconText}>📞</Text></TouchableOpacity>
                     </View>
                 )}
 
-                {callState === 'Idle' && (
+                {callState === null && (
                     <View style={styles.card}>
                         <Text style={styles.cardTitle}>Make a Call</Text>
                         <TouchableOpacity style={styles.vnSelector} onPress={() => setShowVnPicker(true)}>
@@ -323,6 +384,9 @@ const styles = StyleSheet.create({
     card: { width: '100%', backgroundColor: '#FFF', borderRadius: 20, padding: 25, alignItems: 'center', elevation: 4 },
     incomingCard: { backgroundColor: '#E3F2FD', borderWidth: 1, borderColor: '#2196F3' },
     activeCard: { backgroundColor: '#263238' },
+    waitingCard: { marginBottom: 20 },
+    heldText: { fontSize: 14, color: '#CCC', marginBottom: 20 },
+    resumeBtn: { backgroundColor: '#2196F3', paddingVertical: 10, paddingHorizontal: 30, borderRadius: 20, marginBottom: 20 },
     cardTitle: { fontSize: 16, color: '#888', marginBottom: 10, textTransform: 'uppercase', letterSpacing: 1 },
     callerId: { fontSize: 26, fontWeight: 'bold', marginBottom: 20 },
     timer: { fontSize: 18, color: '#4CAF50', fontWeight: 'bold', marginBottom: 20 },
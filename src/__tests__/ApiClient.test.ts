@@ -0,0 +1,215 @@
+import { ApiClient, type FetchFunction } from '../services/ApiClient';
+import {
+  InvalidTokenException,
+  NetworkException,
+  RequestCancelledException,
+  ServerException,
+  TimeoutException,
+} from '../exceptions';
+import { configureLogging } from '../utils/logger';
+
+const response = (
+  status: number,
+  body: unknown = { success: status < 400 }
+): Response =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `Status ${status}`,
+    text: async () => JSON.stringify(body),
+  }) as Response;
+
+// Never settles on its own; rejects like fetch does once its signal is aborted.
+const hangingFetch = jest.fn<
+  ReturnType<FetchFunction>,
+  Parameters<FetchFunction>
+>(
+  (_input, init) =>
+    new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () =>
+        reject(new Error('The operation was aborted.'))
+      );
+    })
+);
+
+const createClient = (
+  fetch: FetchFunction,
+  options: { timeoutMs?: number; maxRetries?: number } = {}
+) => {
+  return new ApiClient({
+    baseUrl: 'https://api.example.com',
+    fetch,
+    ...options,
+  });
+};
+
+/** Lets the client run through its retry delays without waiting for real time. */
+const settle = async <T>(promise: Promise<T>): Promise<T> => {
+  promise.catch(() => undefined);
+  await jest.runAllTimersAsync();
+  return promise;
+};
+
+beforeAll(() => configureLogging({ level: 'silent' }));
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  hangingFetch.mockClear();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ApiClient retries', () => {
+  it('retries a GET that fails with 5xx and resolves with the later response', async () => {
+    const fetch = jest
+      .fn<ReturnType<FetchFunction>, Parameters<FetchFunction>>()
+      .mockResolvedValueOnce(response(503))
+      .mockResolvedValueOnce(response(200, { success: true, data: 1 }));
+
+    await expect(
+      settle(createClient(fetch).request('test', '/items/'))
+    ).resolves.toEqual({ success: true, data: 1 });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries a GET that fails with a network error', async () => {
+    const fetch = jest
+      .fn<ReturnType<FetchFunction>, Parameters<FetchFunction>>()
+      .mockRejectedValueOnce(new TypeError('Network request failed'))
+      .mockResolvedValueOnce(response(200));
+
+    await expect(
+      settle(createClient(fetch).request('test', '/items/'))
+    ).resolves.toEqual({ success: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after maxRetries extra attempts', async () => {
+    const fetch = jest
+      .fn<ReturnType<FetchFunction>, Parameters<FetchFunction>>()
+      .mockRejectedValue(new TypeError('Network request failed'));
+
+    await expect(
+      settle(createClient(fetch, { maxRetries: 2 }).request('test', '/items/'))
+    ).rejects.toBeInstanceOf(NetworkException);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it.each([400, 403, 404, 422])('does not retry a %i', async (status) => {
+    const fetch = jest
+      .fn<ReturnType<FetchFunction>, Parameters<FetchFunction>>()
+      .mockResolvedValue(response(status));
+
+    const error = await settle(
+      createClient(fetch).request('test', '/items/')
+    ).catch((e) => e);
+    expect(error).toBeInstanceOf(ServerException);
+    expect(error).toMatchObject({ httpStatus: status, retryable: false });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns a 401 into an expired token error without retrying', async () => {
+    const fetch = jest
+      .fn<ReturnType<FetchFunction>, Parameters<FetchFunction>>()
+      .mockResolvedValue(response(401));
+
+    await expect(
+      settle(createClient(fetch).request('test', '/items/'))
+    ).rejects.toBeInstanceOf(InvalidTokenException);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('never retries a POST', async () => {
+    const fetch = jest
+      .fn<ReturnType<FetchFunction>, Parameters<FetchFunction>>()
+      .mockResolvedValue(response(503));
+
+    await expect(
+      settle(
+        createClient(fetch).request('test', '/items/', {
+          method: 'POST',
+          body: {},
+        })
+      )
+    ).rejects.toBeInstanceOf(ServerException);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('ApiClient timeouts and cancellation', () => {
+  it('aborts the fetch and rejects with TimeoutException when the timeout fires', async () => {
+    const request = createClient(hangingFetch, {
+      timeoutMs: 1000,
+      maxRetries: 0,
+    }).request('test', '/items/');
+    request.catch(() => undefined);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(hangingFetch.mock.calls[0]![1]!.signal!.aborted).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(request).rejects.toBeInstanceOf(TimeoutException);
+    expect(hangingFetch.mock.calls[0]![1]!.signal!.aborted).toBe(true);
+  });
+
+  it('rejects with RequestCancelledException when the caller aborts', async () => {
+    const controller = new AbortController();
+    const request = createClient(hangingFetch).request('test', '/items/', {
+      signal: controller.signal,
+    });
+    request.catch(() => undefined);
+
+    controller.abort();
+
+    await expect(request).rejects.toBeInstanceOf(RequestCancelledException);
+    expect(hangingFetch).toHaveBeenCalledTimes(1);
+    expect(hangingFetch.mock.calls[0]![1]!.signal!.aborted).toBe(true);
+  });
+
+  it('does not send a request whose signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      createClient(hangingFetch).request('test', '/items/', {
+        signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(RequestCancelledException);
+    expect(hangingFetch).not.toHaveBeenCalled();
+  });
+
+  it('stops retrying when the caller aborts during the retry delay', async () => {
+    const fetch = jest
+      .fn<ReturnType<FetchFunction>, Parameters<FetchFunction>>()
+      .mockResolvedValue(response(503));
+    const controller = new AbortController();
+    const request = createClient(fetch).request('test', '/items/', {
+      signal: controller.signal,
+    });
+    request.catch(() => undefined);
+
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(settle(request)).rejects.toBeInstanceOf(
+      RequestCancelledException
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels every in-flight request on abortAll()', async () => {
+    const client = createClient(hangingFetch);
+    const requests = [
+      client.request('test', '/a/'),
+      client.request('test', '/b/'),
+    ];
+    requests.forEach((request) => request.catch(() => undefined));
+
+    client.abortAll();
+
+    for (const request of requests)
+      await expect(request).rejects.toBeInstanceOf(RequestCancelledException);
+  });
+});
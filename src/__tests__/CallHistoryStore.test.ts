@@ -0,0 +1,52 @@
+import EncryptedStorage from 'react-native-encrypted-storage';
+import { CallHistoryStore } from '../services/CallHistoryStore';
+import type { CallRecord } from '../types';
+import { configureLogging } from '../utils/logger';
+
+const KEY = 'com.frejun.sdk.test.history';
+
+const record = (id: string): CallRecord => ({
+  id,
+  direction: 'Outgoing',
+  remoteContact: '+14155552671',
+  metadata: {},
+  createdAt: Date.now(),
+  endedAt: Date.now(),
+  duration: 0,
+  outcome: 'completed',
+});
+
+beforeAll(() => configureLogging({ level: 'silent' }));
+
+beforeEach(async () => {
+  await EncryptedStorage.clear();
+});
+
+describe('CallHistoryStore', () => {
+  it('reads records whose writes were queued before the read', async () => {
+    CallHistoryStore.add(KEY, record('first'));
+    CallHistoryStore.add(KEY, record('second'));
+
+    const records = await CallHistoryStore.getAll(KEY);
+
+    expect(records.map((r) => r.id)).toEqual(['second', 'first']);
+  });
+
+  it('does not read a history cleared before the read', async () => {
+    await CallHistoryStore.add(KEY, record('first'));
+
+    CallHistoryStore.clear(KEY);
+
+    await expect(CallHistoryStore.getAll(KEY)).resolves.toEqual([]);
+  });
+
+  it('keeps the queue running after a failed read', async () => {
+    jest.mocked(EncryptedStorage.getItem).mockImplementationOnce(async () => {
+      throw new Error('keychain locked');
+    });
+
+    await expect(CallHistoryStore.getAll(KEY)).resolves.toEqual([]);
+    await CallHistoryStore.add(KEY, record('first'));
+    await expect(CallHistoryStore.getAll(KEY)).resolves.toHaveLength(1);
+  });
+});
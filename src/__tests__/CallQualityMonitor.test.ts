@@ -0,0 +1,49 @@
+import { estimateMos } from '../services/CallQualityMonitor';
+
+describe('estimateMos', () => {
+  it.each`
+    rtt    | jitter | packetLoss | mos
+    ${0}   | ${0}   | ${0}       | ${4.4}
+    ${50}  | ${5}   | ${0}       | ${4.39}
+    ${100} | ${20}  | ${1}       | ${4.29}
+    ${200} | ${30}  | ${5}       | ${3.85}
+    ${300} | ${50}  | ${10}      | ${2.8}
+  `(
+    'scores rtt $rtt ms, jitter $jitter ms, loss $packetLoss% as $mos',
+    ({ rtt, jitter, packetLoss, mos }) => {
+      expect(estimateMos(rtt, jitter, packetLoss)).toBe(mos);
+    }
+  );
+
+  it.each`
+    case                   | rtt      | jitter | packetLoss | mos
+    ${'total packet loss'} | ${0}     | ${0}   | ${100}     | ${1}
+    ${'heavy packet loss'} | ${0}     | ${0}   | ${40}      | ${1}
+    ${'extreme latency'}   | ${2000}  | ${500} | ${0}       | ${1}
+    ${'negative loss'}     | ${0}     | ${0}   | ${-50}     | ${4.5}
+    ${'negative latency'}  | ${-1000} | ${0}   | ${0}       | ${4.5}
+  `('clamps $case to $mos', ({ rtt, jitter, packetLoss, mos }) => {
+    expect(estimateMos(rtt, jitter, packetLoss)).toBe(mos);
+  });
+
+  it('stays within 1 - 4.5 and never improves as loss or jitter grow', () => {
+    for (const jitter of [0, 10, 40, 100, 400]) {
+      let previous = Infinity;
+      for (const packetLoss of [0, 1, 2, 5, 10, 20, 50, 100]) {
+        const mos = estimateMos(80, jitter, packetLoss);
+        expect(mos).toBeGreaterThanOrEqual(1);
+        expect(mos).toBeLessThanOrEqual(4.5);
+        expect(mos).toBeLessThanOrEqual(previous);
+        previous = mos;
+      }
+    }
+    for (const packetLoss of [0, 3, 15]) {
+      let previous = Infinity;
+      for (const jitter of [0, 5, 20, 60, 150, 500]) {
+        const mos = estimateMos(80, jitter, packetLoss);
+        expect(mos).toBeLessThanOrEqual(previous);
+        previous = mos;
+      }
+    }
+  });
+});
@@ -0,0 +1,810 @@
+import { Invitation, Inviter, SessionState } from 'sip.js';
+import { Session } from '../core/Session';
+import type UserAgent from '../core/UserAgent';
+import {
+  InvalidCallStateException,
+  InvalidValueException,
+  SipRequestException,
+} from '../exceptions';
+import { TypedEventEmitter } from '../utils/EventEmitter';
+import { configureLogging } from '../utils/logger';
+import { SessionType } from '../utils/validation';
+import type {
+  DtmfMethod,
+  RejectOptions,
+  RejectStatusCode,
+  SoftphoneEvents,
+} from '../types';
+
+jest.mock('sip.js', () => {
+  const actual = jest.requireActual('sip.js');
+  // Accepts every request unless a test overrides the mock.
+  const accept = async (_target: unknown, options?: any) => {
+    (options ?? _target)?.requestDelegate?.onAccept?.({});
+  };
+  class MockSipSession {
+    id = 'call-id';
+    state = actual.SessionState.Initial;
+    delegate: any;
+    sessionDescriptionHandler: any = {
+      peerConnection: {},
+      enableReceiverTracks: jest.fn(),
+      enableSenderTracks: jest.fn(),
+      sendDtmf: jest.fn(() => true),
+    };
+    sessionDescriptionHandlerOptionsReInvite: any = {};
+    listeners: Array<(state: string) => void> = [];
+    stateChange = {
+      addListener: (listener: (state: string) => void) =>
+        this.listeners.push(listener),
+    };
+    invite = jest.fn(accept);
+    info = jest.fn(accept);
+    refer = jest.fn(accept);
+    bye = jest.fn(async () => undefined);
+
+    setState(state: string) {
+      this.state = state;
+      this.listeners.forEach((listener) => listener(state));
+    }
+  }
+  class MockInvitation extends MockSipSession {
+    accept = jest.fn(async () => undefined);
+    reject = jest.fn(async () => undefined);
+    progress = jest.fn(async () => undefined);
+  }
+  class MockInviter extends MockSipSession {
+    cancel = jest.fn(async () => undefined);
+  }
+  return { ...actual, Invitation: MockInvitation, Inviter: MockInviter };
+});
+
+type MockSipSession = {
+  state: SessionState;
+  delegate: any;
+  sessionDescriptionHandler: any;
+  sessionDescriptionHandlerOptionsReInvite: any;
+  invite: jest.Mock;
+  info: jest.Mock;
+  refer: jest.Mock;
+  bye: jest.Mock;
+  accept: jest.Mock;
+  reject: jest.Mock;
+  progress: jest.Mock;
+  cancel: jest.Mock;
+  setState(state: SessionState): void;
+};
+
+const createSession = (
+  direction: 'Incoming' | 'Outgoing' = 'Outgoing',
+  userAgentOptions: Partial<Record<keyof UserAgent, unknown>> = {}
+) => {
+  const SipSession = (direction === 'Incoming' ? Invitation : Inviter) as any;
+  const sip: MockSipSession = new SipSession();
+  const userAgent = {
+    qualityMonitorOptions: { enabled: false },
+    server: 'edge.example.com',
+    callSetupTimeoutMs: 0,
+    earlyMedia: true,
+    holdOtherSessions: jest.fn(async () => undefined),
+    clearSession: jest.fn(),
+    transport: { isConnected: () => true },
+    ...userAgentOptions,
+  } as unknown as UserAgent;
+  const events = new TypedEventEmitter<SoftphoneEvents>('Softphone');
+  const session = new Session(sip as any, SessionType, userAgent, events);
+  return { session, sip, events, userAgent };
+};
+
+const createEstablishedSession = () => {
+  const created = createSession();
+  created.sip.setState(SessionState.Establishing);
+  created.sip.setState(SessionState.Established);
+  return created;
+};
+
+const rejectWith =
+  (statusCode: number, reasonPhrase: string) =>
+  async (_target: unknown, options?: any) => {
+    (options ?? _target).requestDelegate.onReject({
+      message: { statusCode, reasonPhrase },
+    });
+  };
+
+const response = (statusCode: number, reasonPhrase: string, sdp?: string) => ({
+  message: {
+    statusCode,
+    reasonPhrase,
+    body: sdp ?? '',
+    getHeader: (name: string) =>
+      sdp && name === 'Content-Type' ? 'application/sdp' : undefined,
+    getHeaders: () => [],
+  },
+});
+
+// The end of a call is reported on the tick after sip.js terminates the session.
+const terminate = async (sip: MockSipSession) => {
+  sip.setState(SessionState.Terminated);
+  await Promise.resolve();
+};
+
+beforeAll(() => configureLogging({ level: 'silent' }));
+
+describe('Session hold', () => {
+  it('puts the call on hold with a re-INVITE and resumes it', async () => {
+    const { session, sip } = createEstablishedSession();
+    const holds: string[] = [];
+    session.on('hold', (origin) => holds.push(`hold:${origin}`));
+    session.on('resume', (origin) => holds.push(`resume:${origin}`));
+
+    await session.hold();
+    expect(sip.sessionDescriptionHandlerOptionsReInvite).toEqual({
+      hold: true,
+    });
+    expect(session.isOnHold).toBe(true);
+    expect(session.callState).toBe('on-hold');
+    expect(
+      sip.sessionDescriptionHandler.enableReceiverTracks
+    ).toHaveBeenLastCalledWith(false);
+
+    await session.unhold();
+    expect(session.isOnHold).toBe(false);
+    expect(session.callState).toBe('connected');
+    expect(holds).toEqual(['hold:local', 'resume:local']);
+    expect(sip.invite).toHaveBeenCalledTimes(2);
+  });
+
+  it('does nothing when the call is already in the requested state', async () => {
+    const { session, sip } = createEstablishedSession();
+
+    await session.unhold();
+
+    expect(sip.invite).not.toHaveBeenCalled();
+  });
+
+  it('refuses a second request while one is pending', async () => {
+    const { session, sip } = createEstablishedSession();
+    sip.invite.mockImplementationOnce(() => new Promise(() => undefined));
+
+    const pending = session.hold();
+
+    await expect(session.unhold()).rejects.toBeInstanceOf(
+      InvalidCallStateException
+    );
+    expect(sip.invite).toHaveBeenCalledTimes(1);
+    pending.catch(() => undefined);
+  });
+
+  it('rolls back when the re-INVITE is rejected', async () => {
+    const { session, sip } = createEstablishedSession();
+    const previousOptions = { constraints: { audio: true } };
+    sip.sessionDescriptionHandlerOptionsReInvite = previousOptions;
+    sip.invite.mockImplementationOnce(rejectWith(488, 'Not Acceptable Here'));
+
+    const error = await session.hold().catch((e) => e);
+
+    expect(error).toBeInstanceOf(SipRequestException);
+    expect(error).toMatchObject({ sipStatus: 488 });
+    expect(session.isOnHold).toBe(false);
+    expect(session.callState).toBe('connected');
+    expect(sip.sessionDescriptionHandlerOptionsReInvite).toBe(previousOptions);
+
+    // The guard is released, so the next attempt goes out.
+    await session.hold();
+    expect(session.isOnHold).toBe(true);
+  });
+
+  it('rolls back when the re-INVITE cannot be sent', async () => {
+    const { session, sip } = createEstablishedSession();
+    sip.invite.mockRejectedValueOnce(new Error('transport closed'));
+
+    await expect(session.hold()).rejects.toBeInstanceOf(SipRequestException);
+
+    expect(session.isOnHold).toBe(false);
+    await session.hold();
+    expect(session.isOnHold).toBe(true);
+  });
+
+  it('requires an established call', async () => {
+    const { session, sip } = createSession();
+
+    await expect(session.hold()).rejects.toBeInstanceOf(
+      InvalidCallStateException
+    );
+    expect(sip.invite).not.toHaveBeenCalled();
+  });
+
+  it.each`
+    direction     | remoteOnHold
+    ${'sendonly'} | ${true}
+    ${'inactive'} | ${true}
+    ${'sendrecv'} | ${false}
+  `(
+    'tracks a remote hold from a re-INVITE with a=$direction',
+    ({ direction, remoteOnHold }) => {
+      const { session, sip } = createEstablishedSession();
+      const origins: string[] = [];
+      session.on('hold', (origin) => origins.push(origin));
+
+      sip.delegate.onInvite(
+        { body: `v=0\r\nm=audio 9 RTP/AVP 0\r\na=${direction}\r\n` },
+        undefined,
+        200
+      );
+
+      expect(session.isRemoteOnHold).toBe(remoteOnHold);
+      expect(session.callState).toBe(remoteOnHold ? 'on-hold' : 'connected');
+      expect(origins).toEqual(remoteOnHold ? ['remote'] : []);
+    }
+  );
+});
+
+describe('Session mute', () => {
+  it('stops sending audio and reports each change once', () => {
+    const { session, sip, events } = createEstablishedSession();
+    const changes: boolean[] = [];
+    events.on('muteChange', (_session, muted) => changes.push(muted));
+
+    session.mute();
+    session.mute();
+    expect(session.isMuted).toBe(true);
+    expect(
+      sip.sessionDescriptionHandler.enableSenderTracks
+    ).toHaveBeenLastCalledWith(false);
+
+    session.unmute();
+    expect(session.isMuted).toBe(false);
+    expect(
+      sip.sessionDescriptionHandler.enableSenderTracks
+    ).toHaveBeenLastCalledWith(true);
+    expect(changes).toEqual([true, false]);
+  });
+
+  it('stays muted across hold and resume', async () => {
+    const { session, sip } = createEstablishedSession();
+    session.mute();
+
+    await session.hold();
+    await session.unhold();
+
+    expect(session.isMuted).toBe(true);
+    expect(
+      sip.sessionDescriptionHandler.enableSenderTracks
+    ).toHaveBeenLastCalledWith(false);
+    expect(
+      sip.sessionDescriptionHandler.enableReceiverTracks
+    ).toHaveBeenLastCalledWith(true);
+  });
+
+  it('applies a mute set before the call is answered', () => {
+    const { session, sip } = createSession();
+    session.mute();
+    sip.sessionDescriptionHandler.enableSenderTracks.mockClear();
+
+    sip.setState(SessionState.Established);
+
+    expect(
+      sip.sessionDescriptionHandler.enableSenderTracks
+    ).toHaveBeenCalledWith(false);
+  });
+
+  it('cannot be changed once the call has ended', () => {
+    const { session, sip } = createEstablishedSession();
+    sip.setState(SessionState.Terminated);
+
+    expect(() => session.mute()).toThrow(InvalidCallStateException);
+  });
+});
+
+describe('Session DTMF', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it.each(['', '12x', 'E', '1 2'])('rejects %p as digits', async (digits) => {
+    const { session } = createEstablishedSession();
+
+    await expect(session.sendDtmf(digits)).rejects.toBeInstanceOf(
+      InvalidValueException
+    );
+  });
+
+  it('rejects an unknown method', async () => {
+    const { session } = createEstablishedSession();
+
+    await expect(
+      session.sendDtmf('1', { method: 'sms' as DtmfMethod })
+    ).rejects.toBeInstanceOf(InvalidValueException);
+  });
+
+  it('requires an established call', async () => {
+    const { session } = createSession();
+
+    await expect(session.sendDtmf('1')).rejects.toBeInstanceOf(
+      InvalidCallStateException
+    );
+  });
+
+  it('plays queued tones in order, one gap apart', async () => {
+    const { session, sip } = createEstablishedSession();
+    const tones: string[] = [];
+    session.on('dtmf', (tone, method) => tones.push(`${tone}:${method}`));
+
+    const first = session.sendDtmf('1a', { duration: 100, interToneGap: 50 });
+    const second = session.sendDtmf('#', { duration: 100, interToneGap: 50 });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(tones).toEqual(['1:rfc4733']);
+
+    await jest.advanceTimersByTimeAsync(150);
+    expect(tones).toEqual(['1:rfc4733', 'A:rfc4733']);
+
+    await jest.advanceTimersByTimeAsync(300);
+    await Promise.all([first, second]);
+    expect(tones).toEqual(['1:rfc4733', 'A:rfc4733', '#:rfc4733']);
+    expect(sip.sessionDescriptionHandler.sendDtmf).toHaveBeenCalledWith('1', {
+      duration: 100,
+      interToneGap: 50,
+    });
+  });
+
+  it('falls back to SIP INFO when telephone-event was not negotiated', async () => {
+    const { session, sip } = createEstablishedSession();
+    sip.sessionDescriptionHandler.sendDtmf.mockReturnValue(false);
+    const methods: string[] = [];
+    session.on('dtmf', (_tone, method) => methods.push(method));
+
+    const sending = session.sendDtmf('5', { duration: 100 });
+    await jest.runAllTimersAsync();
+    await sending;
+
+    expect(methods).toEqual(['info']);
+    expect(sip.info).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestOptions: {
+          body: expect.objectContaining({
+            contentType: 'application/dtmf-relay',
+            content: 'Signal=5\r\nDuration=100',
+          }),
+        },
+      })
+    );
+  });
+
+  it('rejects the tone when the INFO request is rejected', async () => {
+    const { session, sip } = createEstablishedSession();
+    sip.info.mockImplementationOnce(rejectWith(415, 'Unsupported Media Type'));
+    const tones: string[] = [];
+    session.on('dtmf', (tone) => tones.push(tone));
+
+    const sending = session.sendDtmf('12', { method: 'info' });
+    sending.catch(() => undefined);
+    await jest.runAllTimersAsync();
+
+    const error = await sending.catch((e) => e);
+    expect(error).toBeInstanceOf(SipRequestException);
+    expect(error).toMatchObject({ sipStatus: 415 });
+    expect(tones).toEqual([]);
+    expect(sip.info).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the queue going after a failed batch', async () => {
+    const { session, sip } = createEstablishedSession();
+    sip.sessionDescriptionHandler.sendDtmf.mockReturnValue(false);
+    sip.info.mockRejectedValueOnce(new Error('transport closed'));
+
+    const failed = session.sendDtmf('1', { method: 'info' });
+    failed.catch(() => undefined);
+    const next = session.sendDtmf('2', { method: 'info' });
+    await jest.runAllTimersAsync();
+
+    await expect(failed).rejects.toBeInstanceOf(SipRequestException);
+    await expect(next).resolves.toBeUndefined();
+    expect(sip.info).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops a batch when the call ends', async () => {
+    const { session, sip } = createEstablishedSession();
+
+    const sending = session.sendDtmf('123');
+    sending.catch(() => undefined);
+    await jest.advanceTimersByTimeAsync(0);
+    sip.setState(SessionState.Terminated);
+    await jest.runAllTimersAsync();
+
+    await expect(sending).rejects.toBeInstanceOf(InvalidCallStateException);
+    expect(sip.sessionDescriptionHandler.sendDtmf).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('Session transfer', () => {
+  const notify = (sip: MockSipSession, body: string | undefined) => {
+    const { onNotify } = sip.refer.mock.calls[0][1];
+    onNotify({
+      accept: jest.fn(async () => undefined),
+      request: { body },
+    });
+  };
+
+  it.each`
+    body                                       | status       | statusCode
+    ${'SIP/2.0 100 Trying'}                    | ${'trying'}  | ${100}
+    ${'SIP/2.0 180 Ringing'}                   | ${'ringing'} | ${180}
+    ${'SIP/2.0 183 Session Progress'}          | ${'ringing'} | ${183}
+    ${'SIP/2.0 200 OK\r\n'}                    | ${'success'} | ${200}
+    ${'SIP/2.0 486 Busy Here'}                 | ${'failed'}  | ${486}
+    ${'Content: x\r\nSIP/2.0 603 Decline\r\n'} | ${'failed'}  | ${603}
+  `(
+    'reports a NOTIFY with "$body" as $status',
+    async ({ body, status, statusCode }) => {
+      const { session, sip } = createEstablishedSession();
+      const progress = jest.fn();
+      session.on('transferProgress', progress);
+      await session.transfer('alice');
+
+      notify(sip, body);
+
+      expect(progress).toHaveBeenCalledWith(
+        expect.objectContaining({ status, statusCode })
+      );
+    }
+  );
+
+  it.each([undefined, '', 'not a sipfrag'])(
+    'ignores a NOTIFY with body %p',
+    async (body) => {
+      const { session, sip } = createEstablishedSession();
+      const progress = jest.fn();
+      session.on('transferProgress', progress);
+      await session.transfer('alice');
+
+      notify(sip, body);
+
+      expect(progress).not.toHaveBeenCalled();
+    }
+  );
+
+  it('releases the call once the transfer succeeds', async () => {
+    const { session, sip } = createEstablishedSession();
+    const completed = jest.fn();
+    session.on('transferCompleted', completed);
+    await session.transfer('alice');
+
+    notify(sip, 'SIP/2.0 200 OK');
+    notify(sip, 'SIP/2.0 200 OK');
+
+    expect(completed).toHaveBeenCalledTimes(1);
+    expect(completed).toHaveBeenCalledWith(true);
+    expect(sip.bye).toHaveBeenCalledTimes(1);
+    expect(session.endReason).toEqual({ type: 'transferred' });
+  });
+
+  it('keeps the call when the transfer fails', async () => {
+    const { session, sip } = createEstablishedSession();
+    const completed = jest.fn();
+    session.on('transferCompleted', completed);
+    await session.transfer('alice');
+
+    notify(sip, 'SIP/2.0 486 Busy Here');
+
+    expect(completed).toHaveBeenCalledWith(false);
+    expect(sip.bye).not.toHaveBeenCalled();
+  });
+
+  it.each`
+    target                          | uri
+    ${'+14155552671'}               | ${'sip:+14155552671@edge.example.com'}
+    ${'+1 (415) 555-2671'}          | ${'sip:+14155552671@edge.example.com'}
+    ${' +44 20 7946 0958 '}         | ${'sip:+442079460958@edge.example.com'}
+    ${'alice'}                      | ${'sip:alice@edge.example.com'}
+    ${'sip:alice@edge.example.com'} | ${'sip:alice@edge.example.com'}
+  `('refers $target to $uri', async ({ target, uri }) => {
+    const { session, sip } = createEstablishedSession();
+
+    await session.transfer(target);
+
+    expect(String(sip.refer.mock.calls[0][0])).toBe(uri);
+  });
+
+  it.each([
+    '',
+    '+1 555',
+    '+1 (415) 555-267x',
+    'sip:alice@elsewhere.example.com',
+  ])('rejects %p as a transfer target', async (target) => {
+    const { session, sip } = createEstablishedSession();
+
+    await expect(session.transfer(target)).rejects.toBeInstanceOf(
+      InvalidValueException
+    );
+    expect(sip.refer).not.toHaveBeenCalled();
+  });
+
+  it('rejects with SipRequestException when the REFER is rejected', async () => {
+    const { session, sip } = createEstablishedSession();
+    sip.refer.mockImplementationOnce(rejectWith(403, 'Forbidden'));
+
+    const error = await session.transfer('alice').catch((e) => e);
+
+    expect(error).toBeInstanceOf(SipRequestException);
+    expect(error).toMatchObject({ sipStatus: 403 });
+  });
+});
+
+describe('Session call state', () => {
+  it('follows an outgoing call from dialing to ended', async () => {
+    const { session, sip, events } = createSession();
+    const terminating = jest.fn();
+    events.on('callTerminating', terminating);
+    sip.invite.mockImplementationOnce(async ({ requestDelegate }) => {
+      requestDelegate.onProgress(response(180, 'Ringing'));
+    });
+
+    await session.dial();
+    sip.setState(SessionState.Establishing);
+    sip.setState(SessionState.Established);
+    await session.hold();
+    await session.unhold();
+    await session.hangup();
+    await terminate(sip);
+
+    expect(
+      session.callStateHistory.map(({ from, to }) => `${from}->${to}`)
+    ).toEqual([
+      'null->dialing',
+      'dialing->ringing',
+      'ringing->connected',
+      'connected->on-hold',
+      'on-hold->connected',
+      'connected->ending',
+      'ending->ended',
+    ]);
+    expect(terminating).toHaveBeenCalledTimes(1);
+    expect(session.endReason).toEqual({ type: 'local-hangup' });
+  });
+
+  it('enters ending before ended when the remote party hangs up', async () => {
+    const { session, sip } = createEstablishedSession();
+    const states: string[] = [];
+    session.on('callStateChange', (_from, to) => states.push(to));
+
+    sip.delegate.onBye({
+      request: response(0, '').message,
+      accept: jest.fn(async () => undefined),
+    });
+    await terminate(sip);
+
+    expect(states).toEqual(['ending', 'ended']);
+    expect(session.endReason).toMatchObject({ type: 'remote-hangup' });
+  });
+
+  it('returns from reconnecting to the hold state it left', async () => {
+    const { session } = createEstablishedSession();
+    await session.hold();
+
+    session.setReconnecting(true);
+    expect(session.callState).toBe('reconnecting');
+
+    session.setReconnecting(false);
+    expect(session.callState).toBe('on-hold');
+  });
+
+  it('ignores changes once the call has ended', async () => {
+    const { session, sip } = createSession('Incoming');
+    await session.reject();
+    await terminate(sip);
+    const history = session.callStateHistory;
+
+    sip.setState(SessionState.Established);
+
+    expect(session.callState).toBe('ended');
+    expect(session.callStateHistory).toEqual(history);
+    expect(history.map(({ to }) => to)).toEqual(['ringing', 'ending', 'ended']);
+  });
+
+  it.each`
+    direction     | answered | type
+    ${'Outgoing'} | ${false} | ${'cancelled'}
+    ${'Outgoing'} | ${true}  | ${'local-hangup'}
+    ${'Incoming'} | ${false} | ${'local-hangup'}
+    ${'Incoming'} | ${true}  | ${'local-hangup'}
+  `(
+    'records an $direction call torn down by the user agent (answered: $answered) as $type',
+    async ({ direction, answered, type }) => {
+      const { session, sip, events } = createSession(direction);
+      const hangup = jest.fn();
+      events.on('callHangup', hangup);
+      if (answered) sip.setState(SessionState.Established);
+
+      session.markLocalHangup();
+      await terminate(sip);
+
+      expect(hangup).toHaveBeenCalledWith(session, { type });
+      expect(session.toCallRecord().endReason).toEqual({ type });
+    }
+  );
+
+  it('reports a call torn down without a reason as failed', async () => {
+    const { session, sip, events } = createEstablishedSession();
+    const hangup = jest.fn();
+    events.on('callHangup', hangup);
+
+    await terminate(sip);
+
+    expect(hangup).toHaveBeenCalledWith(session, { type: 'failed' });
+  });
+});
+
+describe('Session outgoing call setup', () => {
+  const dialWith = async (
+    session: Session,
+    sip: MockSipSession,
+    ...responses: ReturnType<typeof response>[]
+  ) => {
+    sip.invite.mockImplementationOnce(async ({ requestDelegate }) => {
+      responses.forEach((progress) => requestDelegate.onProgress(progress));
+    });
+    await session.dial();
+  };
+
+  afterEach(() => jest.useRealTimers());
+
+  it.each`
+    progress                                        | callState        | hasEarlyMedia
+    ${response(180, 'Ringing')}                     | ${'ringing'}     | ${false}
+    ${response(183, 'Session Progress', 'v=0\r\n')} | ${'early-media'} | ${true}
+    ${response(183, 'Session Progress')}            | ${'dialing'}     | ${false}
+  `(
+    'moves to $callState on a $progress.message.statusCode',
+    async ({ progress, callState, hasEarlyMedia }) => {
+      const { session, sip } = createSession();
+      const reported = jest.fn();
+      session.on('progress', reported);
+
+      await dialWith(session, sip, progress);
+
+      expect(session.callState).toBe(callState);
+      expect(reported).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: progress.message.statusCode,
+          hasEarlyMedia,
+        })
+      );
+    }
+  );
+
+  it('stays ringing when early media is disabled', async () => {
+    const { session, sip } = createSession('Outgoing', { earlyMedia: false });
+
+    await dialWith(
+      session,
+      sip,
+      response(180, 'Ringing'),
+      response(183, 'Session Progress', 'v=0\r\n')
+    );
+
+    expect(session.callState).toBe('ringing');
+  });
+
+  it('cancels a call that is not answered in time', async () => {
+    jest.useFakeTimers();
+    const { session, sip } = createSession('Outgoing', {
+      callSetupTimeoutMs: 30000,
+    });
+    await dialWith(session, sip, response(180, 'Ringing'));
+
+    await jest.advanceTimersByTimeAsync(29999);
+    expect(sip.cancel).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sip.cancel).toHaveBeenCalledTimes(1);
+    expect(session.callState).toBe('ending');
+    expect(session.endReason).toEqual({
+      type: 'setup-timeout',
+      timeoutMs: 30000,
+    });
+  });
+
+  it('does not cancel a call answered in time', async () => {
+    jest.useFakeTimers();
+    const { session, sip } = createSession('Outgoing', {
+      callSetupTimeoutMs: 30000,
+    });
+    await dialWith(session, sip);
+
+    sip.setState(SessionState.Established);
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(sip.cancel).not.toHaveBeenCalled();
+    expect(session.callState).toBe('connected');
+  });
+
+  it('clears the timer when the INVITE cannot be sent', async () => {
+    jest.useFakeTimers();
+    const { session, sip } = createSession('Outgoing', {
+      callSetupTimeoutMs: 30000,
+    });
+    sip.invite.mockRejectedValueOnce(new Error('transport closed'));
+
+    await expect(session.dial()).rejects.toThrow('transport closed');
+
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
+
+describe('Session reject', () => {
+  it.each<RejectStatusCode>([486, 603, 480])(
+    'declines with %i',
+    async (statusCode) => {
+      const { session, sip } = createSession('Incoming');
+
+      await session.reject({ statusCode, reason: 'Busy' });
+
+      expect(sip.reject).toHaveBeenCalledWith({
+        statusCode,
+        reasonPhrase: 'Busy',
+      });
+      expect(session.callState).toBe('ending');
+      expect(session.endReason).toEqual({
+        type: 'rejected',
+        statusCode,
+        reasonPhrase: 'Busy',
+      });
+    }
+  );
+
+  it('declines with 480 by default', async () => {
+    const { session, sip } = createSession('Incoming');
+
+    await session.reject();
+
+    expect(sip.reject).toHaveBeenCalledWith({
+      statusCode: 480,
+      reasonPhrase: undefined,
+    });
+  });
+
+  it.each([200, 404, 487, 500])(
+    'refuses %i as a reject status',
+    async (statusCode) => {
+      const { session, sip } = createSession('Incoming');
+
+      await expect(
+        session.reject({ statusCode } as RejectOptions)
+      ).rejects.toBeInstanceOf(InvalidValueException);
+      expect(sip.reject).not.toHaveBeenCalled();
+      expect(session.callState).toBe('ringing');
+    }
+  );
+
+  it('only declines unanswered incoming calls', async () => {
+    const outgoing = createSession('Outgoing');
+    await expect(outgoing.session.reject()).rejects.toBeInstanceOf(
+      InvalidCallStateException
+    );
+
+    const answered = createSession('Incoming');
+    answered.sip.setState(SessionState.Established);
+    await expect(answered.session.reject()).rejects.toBeInstanceOf(
+      InvalidCallStateException
+    );
+  });
+
+  it('sends 180 Ringing only once', async () => {
+    const { session, sip } = createSession('Incoming');
+
+    await session.ringing();
+    await session.ringing();
+
+    expect(sip.progress).toHaveBeenCalledTimes(1);
+    expect(sip.progress).toHaveBeenCalledWith({ statusCode: 180 });
+  });
+
+  it('sends 180 Ringing again after a failed attempt', async () => {
+    const { session, sip } = createSession('Incoming');
+    sip.progress.mockRejectedValueOnce(new Error('transport closed'));
+
+    await expect(session.ringing()).rejects.toThrow('transport closed');
+    await session.ringing();
+
+    expect(sip.progress).toHaveBeenCalledTimes(2);
+  });
+});
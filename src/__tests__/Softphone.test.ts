@@ -0,0 +1,359 @@
+import { Linking } from 'react-native';
+import { OAUTH_LOGIN_TIMEOUT } from '../constants';
+import Softphone from '../core/Softphone';
+import UserAgent from '../core/UserAgent';
+import { InvalidLoginStateException, StorageException } from '../exceptions';
+import { CallHistoryStore } from '../services/CallHistoryStore';
+import { InMemoryTokenStore } from '../services/TokenStore';
+import type {
+  NetworkMonitor,
+  NetworkState,
+  PendingLogin,
+  TokenPayload,
+} from '../types';
+import { createLogger } from '../utils/logger';
+import { createCodeChallenge } from '../utils/pkce';
+
+jest.mock('../core/UserAgent');
+
+const respond = (body: unknown): Promise<Response> =>
+  Promise.resolve({
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    text: async () => JSON.stringify(body),
+  } as Response);
+
+const fetch = jest.fn((url: string): Promise<Response> => {
+  if (url.includes('/v1/auth/retrieve-user-roles/')) {
+    return respond({
+      data: [{ permissions: [{ action: 'integrations (iframe and sdk)' }] }],
+    });
+  }
+  if (url.includes('/v1/calls/register-softphone/')) {
+    return respond({
+      success: true,
+      username: 'agent',
+      access_token: 'sip-token',
+    });
+  }
+  if (url.includes('/v2/oauth/token/refresh/')) {
+    return respond({
+      success: true,
+      access: 'new-access-token',
+      refresh: 'new-refresh-token',
+    });
+  }
+  if (url.includes('/v2/oauth/token/')) {
+    return respond({
+      success: true,
+      access_token: 'oauth-access-token',
+      refresh_token: 'oauth-refresh-token',
+    });
+  }
+  if (url.includes('/v2/integrations/profile/')) {
+    return respond({
+      success: true,
+      data: { edge_domain: 'edge.example.com', virtual_numbers: [] },
+    });
+  }
+  return Promise.reject(new Error(`Unexpected request to ${url}`));
+});
+
+const createNetworkMonitor = () => {
+  let listener: ((state: NetworkState) => unknown) | null = null;
+  const monitor: NetworkMonitor = {
+    getState: () => new Promise(() => undefined),
+    subscribe: (next) => {
+      listener = next;
+      return () => {
+        listener = null;
+      };
+    },
+  };
+  // The Softphone handler is async; awaiting it lets the reconnect calls settle.
+  const emit = async (state: NetworkState) => {
+    await listener?.(state);
+  };
+  return { monitor, emit };
+};
+
+const storedTokens = {
+  accessToken: 'access-token',
+  refreshToken: 'refresh-token',
+  email: 'agent@example.com',
+};
+
+const initialize = (tokenStore = new InMemoryTokenStore([storedTokens])) =>
+  Softphone.initialize({
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    logging: { level: 'silent' },
+    fetch,
+    tokenStore,
+  });
+
+const startSoftphone = async () => {
+  const softphone = await initialize();
+  const { monitor, emit } = createNetworkMonitor();
+  await softphone!.start(
+    {},
+    { networkMonitor: monitor, callHistory: { enabled: false } }
+  );
+
+  const userAgent = jest.mocked(UserAgent).mock.instances.at(-1)!;
+  jest.mocked(userAgent.getSessions).mockReturnValue([]);
+  await emit({ isConnected: true, type: 'wifi' });
+  return { softphone: softphone!, userAgent, emit };
+};
+
+beforeEach(() => {
+  jest.mocked(UserAgent).mockClear();
+  fetch.mockClear();
+});
+
+describe('Softphone.initialize', () => {
+  it('resolves to null when the refreshed tokens cannot be saved', async () => {
+    class FailingTokenStore extends InMemoryTokenStore {
+      public async save(_tokens: TokenPayload): Promise<void> {
+        throw new Error('disk full');
+      }
+    }
+    const tokenStore = new FailingTokenStore([storedTokens]);
+    fetch.mockImplementationOnce(() =>
+      Promise.resolve({
+        ok: false,
+        status: 401,
+        statusText: 'Unauthorized',
+        text: async () => '{}',
+      } as Response)
+    );
+
+    await expect(initialize(tokenStore)).resolves.toBeNull();
+    expect(fetch).toHaveBeenCalledWith(
+      expect.stringContaining('/v2/oauth/token/refresh/'),
+      expect.anything()
+    );
+    await expect(tokenStore.listAccounts()).resolves.toEqual([]);
+  });
+});
+
+describe('Softphone with several clients', () => {
+  const initializeClient = (clientId: string, tokenStorageKey?: string) =>
+    Softphone.initialize({
+      clientId,
+      clientSecret: 'client-secret',
+      fetch,
+      config: { tokenStorageKey },
+      tokenStore: new InMemoryTokenStore([storedTokens]),
+    });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each`
+    difference             | first                      | second
+    ${'client ID'}         | ${['client-a']}            | ${['client-b']}
+    ${'token storage key'} | ${['client-a', 'app.one']} | ${['client-a', 'app.two']}
+  `(
+    'keeps call history apart for the same email under another $difference',
+    async ({ first, second }) => {
+      const getAll = jest.spyOn(CallHistoryStore, 'getAll');
+      const one = await initializeClient(...(first as [string, string?]));
+      const two = await initializeClient(...(second as [string, string?]));
+
+      await one!.getCallHistory();
+      await two!.getCallHistory();
+
+      const [firstKey, secondKey] = getAll.mock.calls.map(([key]) => key);
+      expect(firstKey).toContain(storedTokens.email);
+      expect(firstKey).not.toBe(secondKey);
+    }
+  );
+
+  it('keeps the logging configuration when another client is initialized without one', async () => {
+    const log = jest.fn();
+    await Softphone.initialize({
+      clientId: 'client-a',
+      clientSecret: 'client-secret',
+      logging: { level: 'info', logger: { log } },
+      fetch,
+      tokenStore: new InMemoryTokenStore(),
+    });
+    await initializeClient('client-b');
+
+    createLogger('Softphone').info('still configured');
+
+    expect(log).toHaveBeenCalledWith('info', 'Softphone', 'still configured');
+  });
+});
+
+describe('Softphone.logout', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('keeps handlers added with on() and drops its own subscriptions', async () => {
+    const add = jest
+      .spyOn(CallHistoryStore, 'add')
+      .mockResolvedValue(undefined);
+    const softphone = (await initialize())!;
+    const { monitor } = createNetworkMonitor();
+    const onStart = jest.fn();
+    await softphone.start(
+      { onAvailabilityChange: onStart },
+      { networkMonitor: monitor }
+    );
+    const [{ events }] = jest.mocked(UserAgent).mock.calls.at(-1)!;
+    const onAvailability = jest.fn();
+    softphone.on('availabilityChange', onAvailability);
+
+    await softphone.logout();
+    events.emit('availabilityChange', 'dnd', 'available');
+    events.emit('callAutoRejected', {
+      id: 'call-id',
+      remoteContact: '+14155552671',
+      rule: 'dnd',
+      statusCode: 486,
+      at: Date.now(),
+    });
+
+    expect(onAvailability).toHaveBeenCalledWith('dnd', 'available');
+    expect(onStart).not.toHaveBeenCalled();
+    expect(add).not.toHaveBeenCalled();
+  });
+});
+
+describe('Softphone network handling', () => {
+  it('pauses reconnection while offline and resumes it when the network returns', async () => {
+    const { softphone, userAgent, emit } = await startSoftphone();
+    const reasons: string[] = [];
+    softphone.on('networkChange', (_state, reason) => reasons.push(reason));
+
+    await emit({ isConnected: false, type: 'none' });
+    expect(userAgent.pauseReconnect).toHaveBeenCalledWith('network-lost');
+    expect(userAgent.resumeReconnect).not.toHaveBeenCalled();
+
+    await emit({ isConnected: true, type: 'wifi' });
+    expect(userAgent.resumeReconnect).toHaveBeenCalledWith('network-restored');
+    expect(userAgent.restartTransport).not.toHaveBeenCalled();
+    expect(reasons).toEqual(['network-lost', 'network-restored']);
+  });
+
+  it('restarts the transport when switching networks', async () => {
+    const { userAgent, emit } = await startSoftphone();
+
+    await emit({ isConnected: true, type: 'cellular' });
+
+    expect(userAgent.restartTransport).toHaveBeenCalledWith('network-changed');
+    expect(userAgent.pauseReconnect).not.toHaveBeenCalled();
+    expect(userAgent.resumeReconnect).not.toHaveBeenCalled();
+  });
+
+  it('ignores updates that change neither reachability nor network type', async () => {
+    const { userAgent, emit } = await startSoftphone();
+
+    await emit({ isConnected: true, type: 'wifi' });
+
+    expect(userAgent.restartTransport).not.toHaveBeenCalled();
+    expect(userAgent.resumeReconnect).not.toHaveBeenCalled();
+  });
+});
+
+describe('Softphone OAuth login', () => {
+  const redirect = (state: string) =>
+    `com.example.app://oauth?code=auth-code&email=agent%40example.com&state=${state}`;
+
+  // Starts a login and returns the authorize URL's query parameters.
+  const startLogin = async (tokenStore = new InMemoryTokenStore()) => {
+    await initialize(tokenStore);
+    await Softphone.login();
+    const authorizeUrl = jest.mocked(Linking.openURL).mock.calls.at(-1)![0];
+    return new URLSearchParams(authorizeUrl.split('?')[1]);
+  };
+
+  const loginState = async (promise: Promise<Softphone>) => {
+    const error = await promise.catch((e) => e);
+    expect(error).toBeInstanceOf(InvalidLoginStateException);
+    return JSON.parse(error.details) as string;
+  };
+
+  beforeEach(() => jest.mocked(Linking.openURL).mockClear());
+  afterEach(() => jest.restoreAllMocks());
+
+  it('exchanges the code with the verifier behind the S256 challenge', async () => {
+    const tokenStore = new InMemoryTokenStore();
+    const params = await startLogin(tokenStore);
+    const { codeVerifier } = (await tokenStore.getPendingLogin())!;
+
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('code_challenge')).toBe(
+      createCodeChallenge(codeVerifier)
+    );
+
+    await expect(
+      Softphone.handleRedirect(redirect(params.get('state')!))
+    ).resolves.toBeInstanceOf(Softphone);
+    expect(fetch).toHaveBeenCalledWith(
+      expect.stringContaining(`code_verifier=${codeVerifier}`),
+      expect.anything()
+    );
+    await expect(tokenStore.getPendingLogin()).resolves.toBeNull();
+  });
+
+  it('rejects with MISSING when no login is pending', async () => {
+    await initialize(new InMemoryTokenStore());
+
+    await expect(
+      loginState(Softphone.handleRedirect(redirect('state')))
+    ).resolves.toBe('Login state is MISSING');
+    expect(fetch).not.toHaveBeenCalledWith(
+      expect.stringContaining('/v2/oauth/token/'),
+      expect.anything()
+    );
+  });
+
+  it('rejects with MISMATCH and keeps the genuine login pending', async () => {
+    const params = await startLogin();
+
+    await expect(
+      loginState(Softphone.handleRedirect(redirect('forged-state')))
+    ).resolves.toBe('Login state is MISMATCH');
+    await expect(
+      Softphone.handleRedirect(redirect(params.get('state')!))
+    ).resolves.toBeInstanceOf(Softphone);
+  });
+
+  it('rejects with EXPIRED and drops a login older than the timeout', async () => {
+    const tokenStore = new InMemoryTokenStore();
+    const params = await startLogin(tokenStore);
+    const { createdAt } = (await tokenStore.getPendingLogin())!;
+    jest
+      .spyOn(Date, 'now')
+      .mockReturnValue(createdAt + OAUTH_LOGIN_TIMEOUT + 1);
+
+    await expect(
+      loginState(Softphone.handleRedirect(redirect(params.get('state')!)))
+    ).resolves.toBe('Login state is EXPIRED');
+    await expect(tokenStore.getPendingLogin()).resolves.toBeNull();
+  });
+
+  it('rejects a replayed redirect with MISSING', async () => {
+    const params = await startLogin();
+    const url = redirect(params.get('state')!);
+    await Softphone.handleRedirect(url);
+
+    await expect(loginState(Softphone.handleRedirect(url))).resolves.toBe(
+      'Login state is MISSING'
+    );
+  });
+
+  it('surfaces a failing token store as StorageException', async () => {
+    class FailingTokenStore extends InMemoryTokenStore {
+      public async savePendingLogin(_pending: PendingLogin): Promise<void> {
+        throw new Error('disk full');
+      }
+    }
+    await initialize(new FailingTokenStore());
+
+    await expect(Softphone.login()).rejects.toBeInstanceOf(StorageException);
+    expect(Linking.openURL).not.toHaveBeenCalled();
+  });
+});
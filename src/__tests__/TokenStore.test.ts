@@ -0,0 +1,106 @@
+import EncryptedStorage from 'react-native-encrypted-storage';
+import {
+  EncryptedTokenStore,
+  InMemoryTokenStore,
+} from '../services/TokenStore';
+import { StorageException } from '../exceptions';
+import { configureLogging } from '../utils/logger';
+
+const KEY = 'com.frejun.sdk.test';
+const tokens = {
+  accessToken: 'access-token',
+  refreshToken: 'refresh-token',
+  email: 'agent@example.com',
+};
+
+const stored = async (key: string) =>
+  JSON.parse((await EncryptedStorage.getItem(key))!);
+
+beforeAll(() => configureLogging({ level: 'silent' }));
+
+beforeEach(async () => {
+  await EncryptedStorage.clear();
+});
+
+describe('EncryptedTokenStore migration', () => {
+  it.each`
+    version | payload
+    ${0}    | ${tokens}
+    ${1}    | ${{ version: 1, tokens }}
+  `(
+    'migrates a version $version payload to the per-account layout',
+    async ({ payload }) => {
+      await EncryptedStorage.setItem(KEY, JSON.stringify(payload));
+      const store = new EncryptedTokenStore(KEY);
+
+      await expect(store.get()).resolves.toEqual(tokens);
+      await expect(stored(KEY)).resolves.toEqual({
+        version: 2,
+        accounts: [tokens.email],
+      });
+      await expect(stored(`${KEY}.${tokens.email}`)).resolves.toEqual({
+        version: 2,
+        tokens,
+      });
+    }
+  );
+
+  it('keeps migrated accounts when another one is saved', async () => {
+    await EncryptedStorage.setItem(KEY, JSON.stringify(tokens));
+    const store = new EncryptedTokenStore(KEY);
+
+    await store.save({ ...tokens, email: 'second@example.com' });
+
+    await expect(store.listAccounts()).resolves.toEqual([
+      'second@example.com',
+      tokens.email,
+    ]);
+    await expect(store.get(tokens.email)).resolves.toEqual(tokens);
+  });
+});
+
+describe('EncryptedTokenStore corrupt payloads', () => {
+  it.each`
+    description                           | key                         | value
+    ${'an index that is not JSON'}        | ${KEY}                      | ${'{not json'}
+    ${'an index of unknown version'}      | ${KEY}                      | ${JSON.stringify({ version: 7, accounts: [] })}
+    ${'account tokens that are not JSON'} | ${`${KEY}.${tokens.email}`} | ${'{not json'}
+  `(
+    'rejects with StorageException for $description',
+    async ({ key, value }) => {
+      await EncryptedStorage.setItem(
+        KEY,
+        JSON.stringify({ version: 2, accounts: [tokens.email] })
+      );
+      await EncryptedStorage.setItem(key, value);
+
+      const error = await new EncryptedTokenStore(KEY).get().catch((e) => e);
+      expect(error).toBeInstanceOf(StorageException);
+      expect(JSON.parse(error.details)).toEqual({ operation: 'get' });
+    }
+  );
+
+  it('wraps a failing native module in StorageException', async () => {
+    jest.mocked(EncryptedStorage.setItem).mockImplementationOnce(async () => {
+      throw new Error('keychain locked');
+    });
+
+    await expect(
+      new EncryptedTokenStore(KEY).save(tokens)
+    ).rejects.toBeInstanceOf(StorageException);
+  });
+});
+
+describe('InMemoryTokenStore', () => {
+  it('lists the most recently saved account first', async () => {
+    const store = new InMemoryTokenStore([tokens]);
+
+    await store.save({ ...tokens, email: 'second@example.com' });
+    await store.save(tokens);
+
+    await expect(store.listAccounts()).resolves.toEqual([
+      tokens.email,
+      'second@example.com',
+    ]);
+  });
+});
@@ -0,0 +1,273 @@
+import {
+  Registerer,
+  RegistererState,
+  SessionState,
+  type Invitation,
+} from 'sip.js';
+import UserAgent from '../core/UserAgent';
+import type Auth from '../core/Auth';
+import { TypedEventEmitter } from '../utils/EventEmitter';
+import { configureLogging } from '../utils/logger';
+import type {
+  Availability,
+  ConnectionStateEvent,
+  ReconnectionPolicy,
+  SoftphoneEvents,
+} from '../types';
+
+jest.mock('sip.js', () => {
+  const actual = jest.requireActual('sip.js');
+  class MockRegisterer {
+    static instances: MockRegisterer[] = [];
+    state = actual.RegistererState.Initial;
+    listeners: Array<(state: string) => unknown> = [];
+    stateChange = {
+      addListener: (listener: (state: string) => unknown) =>
+        this.listeners.push(listener),
+    };
+    register = jest.fn(async () => undefined);
+    unregister = jest.fn(async () => undefined);
+    dispose = jest.fn(async () => undefined);
+
+    constructor() {
+      MockRegisterer.instances.push(this);
+    }
+
+    async setState(state: string) {
+      this.state = state;
+      await Promise.all(this.listeners.map((listener) => listener(state)));
+    }
+  }
+  return { ...actual, Registerer: MockRegisterer };
+});
+
+interface MockRegisterer {
+  register: jest.Mock;
+  unregister: jest.Mock;
+  dispose: jest.Mock;
+  setState(state: RegistererState): Promise<void>;
+}
+
+const registerers = (): MockRegisterer[] =>
+  (Registerer as unknown as { instances: MockRegisterer[] }).instances;
+const currentRegisterer = (): MockRegisterer => registerers().at(-1)!;
+const registerCalls = (): number =>
+  registerers().reduce(
+    (count, registerer) => count + registerer.register.mock.calls.length,
+    0
+  );
+
+const createUserAgent = (
+  reconnection?: ReconnectionPolicy,
+  availability: Availability = 'available'
+) => {
+  const auth = {
+    config: {
+      sipTransport: 'wss',
+      sipPort: 9080,
+      connectionTimeout: 15,
+      registrationExpires: 600,
+    },
+    sipUsername: 'agent',
+    getSipToken: 'sip-token',
+    availability,
+    isLoggedIn: () => true,
+    registerSoftphone: jest.fn(async () => ({
+      username: 'agent',
+      accessToken: 'sip-token',
+    })),
+  } as unknown as Auth;
+  const events = new TypedEventEmitter<SoftphoneEvents>('UserAgent');
+  const states: ConnectionStateEvent[] = [];
+  events.on('connectionStateChange', (event) => states.push(event));
+  const userAgent = new UserAgent({
+    auth,
+    events,
+    sipCredentials: { username: 'agent', accessToken: 'sip-token' },
+    edgeDomain: 'edge.example.com',
+    reconnection,
+  });
+  return { userAgent, events, states };
+};
+
+beforeAll(() => configureLogging({ level: 'silent' }));
+
+beforeEach(() => {
+  registerers().length = 0;
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('UserAgent re-registration', () => {
+  it('stops retrying rejected REGISTERs after a bounded number of attempts when reconnection is unlimited', async () => {
+    const { userAgent, states } = createUserAgent({ maxAttempts: Infinity });
+    await userAgent.startRegistration();
+
+    for (let i = 0; i < 6; i++)
+      await currentRegisterer().setState(RegistererState.Unregistered);
+
+    // The initial REGISTER plus three retries.
+    expect(registerCalls()).toBe(4);
+    expect(states.at(-1)).toMatchObject({
+      type: 'RegistererState',
+      state: 'Unregistered',
+      isErrorState: true,
+    });
+  });
+
+  it('does not report a successful registration as an error when reconnection is disabled', async () => {
+    const { userAgent, states } = createUserAgent({ maxAttempts: 0 });
+    await userAgent.startRegistration();
+
+    await currentRegisterer().setState(RegistererState.Registered);
+
+    expect(states).toEqual([
+      expect.objectContaining({ state: 'Registered', isErrorState: false }),
+    ]);
+  });
+
+  it('reuses one registerer across reconnects', async () => {
+    const { userAgent } = createUserAgent();
+    await userAgent.startRegistration();
+
+    userAgent.delegate!.onConnect!();
+    userAgent.delegate!.onConnect!();
+
+    expect(registerers()).toHaveLength(1);
+    expect(currentRegisterer().register).toHaveBeenCalledTimes(3);
+    expect(currentRegisterer().register).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        requestOptions: { extraHeaders: ['token: sip-token'] },
+      })
+    );
+  });
+});
+
+describe('UserAgent availability', () => {
+  it('does not report an error while registering again after leaving away', async () => {
+    const { userAgent, states } = createUserAgent(undefined, 'away');
+    jest.spyOn(userAgent, 'isConnected').mockReturnValue(true);
+    await userAgent.setAvailability('available');
+    await userAgent.setAvailability('away');
+    states.length = 0;
+
+    await userAgent.setAvailability('available');
+    await currentRegisterer().setState(RegistererState.Unregistered);
+
+    expect(states).toEqual([
+      expect.objectContaining({ state: 'Unregistered', isErrorState: false }),
+    ]);
+    expect(currentRegisterer().register).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('UserAgent reconnection backoff', () => {
+  const policy = {
+    initialDelayMs: 1000,
+    multiplier: 2,
+    maxDelayMs: 8000,
+    jitter: 0.2,
+    maxAttempts: 6,
+  };
+
+  it.each([0, 0.5, 0.9999])(
+    'keeps every delay within the backoff and jitter bounds (Math.random() = %p)',
+    async (random) => {
+      jest.useFakeTimers();
+      const { userAgent, events } = createUserAgent(policy);
+      jest.spyOn(Math, 'random').mockReturnValue(random);
+      jest
+        .spyOn(userAgent, 'reconnect')
+        .mockRejectedValue(new Error('offline'));
+      const delays: number[] = [];
+      const failed = jest.fn();
+      events.on('reconnecting', (_attempt, delay) => delays.push(delay));
+      events.on('reconnectFailed', failed);
+
+      userAgent.delegate!.onDisconnect!(new Error('socket closed'));
+      for (let i = 0; i < policy.maxAttempts; i++)
+        await jest.advanceTimersByTimeAsync(policy.maxDelayMs * 2);
+
+      expect(delays).toHaveLength(policy.maxAttempts);
+      delays.forEach((delay, index) => {
+        const base = Math.min(
+          policy.maxDelayMs,
+          policy.initialDelayMs * policy.multiplier ** index
+        );
+        expect(delay).toBeGreaterThanOrEqual(base * (1 - policy.jitter));
+        expect(delay).toBeLessThanOrEqual(base * (1 + policy.jitter));
+      });
+      expect(failed).toHaveBeenCalledWith(policy.maxAttempts);
+    }
+  );
+
+  it('never schedules a negative delay at full jitter', async () => {
+    jest.useFakeTimers();
+    const { userAgent, events } = createUserAgent({
+      ...policy,
+      jitter: 1,
+      maxAttempts: 1,
+    });
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const delays: number[] = [];
+    events.on('reconnecting', (_attempt, delay) => delays.push(delay));
+
+    userAgent.delegate!.onDisconnect!(new Error('socket closed'));
+
+    expect(delays).toEqual([0]);
+  });
+});
+
+describe('UserAgent incoming calls', () => {
+  it('does not ring before an invitation is auto-rejected', async () => {
+    const { userAgent, events } = createUserAgent(undefined, 'dnd');
+    const rejected = jest.fn();
+    events.on('callAutoRejected', rejected);
+    const invitation = {
+      id: 'call-id',
+      remoteIdentity: { uri: { user: '+15550100' } },
+      progress: jest.fn(async () => undefined),
+      reject: jest.fn(async () => undefined),
+    };
+
+    userAgent.delegate!.onInvite!(invitation as unknown as Invitation);
+
+    expect(userAgent.configuration.sendInitialProvisionalResponse).toBe(false);
+    expect(invitation.progress).not.toHaveBeenCalled();
+    expect(invitation.reject).toHaveBeenCalledWith({ statusCode: 486 });
+    expect(rejected).toHaveBeenCalledWith(
+      expect.objectContaining({ rule: 'dnd', statusCode: 486 })
+    );
+  });
+});
+
+describe('UserAgent shutdown', () => {
+  it('records calls torn down by stopUA() as local hangups', async () => {
+    const { userAgent, events } = createUserAgent();
+    jest.spyOn(userAgent, 'stop').mockResolvedValue();
+    const hangup = jest.fn();
+    events.on('callHangup', hangup);
+    const listeners: Array<(state: SessionState) => void> = [];
+    const invitation = {
+      id: 'call-id',
+      state: SessionState.Established,
+      remoteIdentity: { uri: { user: '+15550100' } },
+      stateChange: {
+        addListener: (listener: (state: SessionState) => void) =>
+          listeners.push(listener),
+      },
+    };
+    userAgent.delegate!.onInvite!(invitation as unknown as Invitation);
+
+    await userAgent.stopUA();
+    listeners.forEach((listener) => listener(SessionState.Terminated));
+    await Promise.resolve();
+
+    expect(hangup).toHaveBeenCalledWith(expect.anything(), {
+      type: 'local-hangup',
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { act, type ReactElement } from 'react';
+import { create, type ReactTestRenderer } from 'react-test-renderer';
+import { RegistererState } from 'sip.js';
+import type { VirtualNumber } from '../core/Auth';
+import type { Session } from '../core/Session';
+import type Softphone from '../core/Softphone';
+import {
+  SoftphoneProvider,
+  useActiveCall,
+  useAvailability,
+  useCallTimer,
+  useConnectionState,
+  useSoftphone,
+  useSoftphoneEvent,
+  useVirtualNumbers,
+} from '../hooks';
+import type { Availability, SessionEvents, SoftphoneEvents } from '../types';
+import { TypedEventEmitter } from '../utils/EventEmitter';
+import { configureLogging } from '../utils/logger';
+
+(globalThis as any).IS_REACT_ACT_ENVIRONMENT = true;
+
+const virtualNumber = (id: number, isDefault: boolean): VirtualNumber => ({
+  id,
+  name: `VN ${id}`,
+  country_code: '+1',
+  number: `41555526${id}`,
+  location: 'US',
+  type: 'local',
+  default_calling_number: isDefault,
+  default_sms_number: false,
+});
+
+// Only what the hooks read; events are emitted straight from the emitter.
+const createSoftphone = () => {
+  const events = new TypedEventEmitter<SoftphoneEvents>('Softphone');
+  const softphone = {
+    on: jest.fn(
+      <E extends keyof SoftphoneEvents>(
+        event: E,
+        handler: SoftphoneEvents[E]
+      ) => events.on(event, handler)
+    ),
+    isRegistered: jest.fn(() => false),
+    isLoggedIn: jest.fn(() => true),
+    getAvailability: jest.fn((): Availability => 'available'),
+    getVirtualNumbers: jest.fn((): VirtualNumber[] => []),
+    getActiveSession: jest.fn((): Session | null => null),
+    getSessions: jest.fn((): Session[] => []),
+  };
+  return { softphone, events, instance: softphone as unknown as Softphone };
+};
+
+const createSession = (answeredAt?: number) => {
+  const events = new TypedEventEmitter<SessionEvents>('Session');
+  const session = {
+    answeredAt,
+    endedAt: undefined as number | undefined,
+    on: <E extends keyof SessionEvents>(event: E, handler: SessionEvents[E]) =>
+      events.on(event, handler),
+  };
+  return { session, instance: session as unknown as Session };
+};
+
+const renderHook = <T,>(hook: () => T, softphone: Softphone | null = null) => {
+  const result = { current: undefined as T };
+  const Probe = () => {
+    result.current = hook();
+    return null;
+  };
+  const wrap = (instance: Softphone | null): ReactElement => (
+    <SoftphoneProvider softphone={instance}>
+      <Probe />
+    </SoftphoneProvider>
+  );
+  let renderer!: ReactTestRenderer;
+  act(() => {
+    renderer = create(wrap(softphone));
+  });
+  return {
+    result,
+    rerender: (instance: Softphone | null) =>
+      act(() => renderer.update(wrap(instance))),
+    unmount: () => act(() => renderer.unmount()),
+  };
+};
+
+beforeAll(() => configureLogging({ level: 'silent' }));
+
+describe('useSoftphone', () => {
+  it('throws outside a SoftphoneProvider', () => {
+    const Probe = () => {
+      useSoftphone();
+      return null;
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => act(() => create(<Probe />))).toThrow(
+      'useSoftphone must be used inside a SoftphoneProvider.'
+    );
+    jest.mocked(console.error).mockRestore();
+  });
+
+  it('swaps the instance with setSoftphone', () => {
+    const { instance } = createSoftphone();
+    const { result } = renderHook(() => useSoftphone());
+
+    act(() => result.current.setSoftphone(instance));
+    expect(result.current.softphone).toBe(instance);
+
+    act(() => result.current.setSoftphone(null));
+    expect(result.current.softphone).toBeNull();
+  });
+});
+
+describe('useSoftphoneEvent', () => {
+  it('calls the latest handler and unsubscribes on unmount', () => {
+    const { events, instance } = createSoftphone();
+    const calls: string[] = [];
+    let label = 'first';
+    const { rerender, unmount } = renderHook(
+      () =>
+        useSoftphoneEvent('availabilityChange', (next) =>
+          calls.push(`${label}:${next}`)
+        ),
+      instance
+    );
+
+    act(() => events.emit('availabilityChange', 'dnd', 'available'));
+    label = 'second';
+    rerender(instance);
+    act(() => events.emit('availabilityChange', 'away', 'dnd'));
+    unmount();
+    act(() => events.emit('availabilityChange', 'available', 'away'));
+
+    expect(calls).toEqual(['first:dnd', 'second:away']);
+    expect(events.listenerCount('availabilityChange')).toBe(0);
+  });
+});
+
+describe('useConnectionState', () => {
+  it('follows registration, reconnection attempts and failure', () => {
+    const { events, instance } = createSoftphone();
+    const { result } = renderHook(() => useConnectionState(), instance);
+    expect(result.current.status).toBe('disconnected');
+
+    act(() =>
+      events.emit('connectionStateChange', {
+        type: 'RegistererState',
+        state: RegistererState.Registered,
+        isErrorState: false,
+      })
+    );
+    expect(result.current.status).toBe('connected');
+
+    act(() => events.emit('reconnecting', 2, 4000));
+    expect(result.current).toMatchObject({
+      status: 'connecting',
+      reconnectAttempt: 2,
+    });
+
+    act(() => events.emit('reconnectFailed', 2));
+    expect(result.current).toMatchObject({
+      status: 'disconnected',
+      reconnectAttempt: null,
+    });
+  });
+
+  it('resets when the instance is replaced', () => {
+    const first = createSoftphone();
+    const second = createSoftphone();
+    second.softphone.isRegistered.mockReturnValue(true);
+    const { result, rerender } = renderHook(
+      () => useConnectionState(),
+      first.instance
+    );
+    act(() => first.events.emit('reconnecting', 1, 1000));
+
+    rerender(second.instance);
+
+    expect(result.current).toEqual({
+      status: 'connected',
+      lastEvent: null,
+      reconnectAttempt: null,
+    });
+    expect(first.events.listenerCount('reconnecting')).toBe(0);
+  });
+});
+
+describe('useAvailability', () => {
+  it('starts from the instance and follows availabilityChange', () => {
+    const { softphone, events, instance } = createSoftphone();
+    softphone.getAvailability.mockReturnValue('away');
+    const { result } = renderHook(() => useAvailability(), instance);
+    expect(result.current).toBe('away');
+
+    act(() => events.emit('availabilityChange', 'dnd', 'away'));
+
+    expect(result.current).toBe('dnd');
+  });
+});
+
+describe('useVirtualNumbers', () => {
+  it('reloads the numbers on connection changes and picks the default', () => {
+    const { softphone, events, instance } = createSoftphone();
+    const { result } = renderHook(() => useVirtualNumbers(), instance);
+    expect(result.current.defaultVirtualNumber).toBeNull();
+
+    const numbers = [virtualNumber(1, false), virtualNumber(2, true)];
+    softphone.getVirtualNumbers.mockReturnValue(numbers);
+    act(() =>
+      events.emit('connectionStateChange', {
+        type: 'UserAgentState',
+        state: 'Connected',
+        isErrorState: false,
+      })
+    );
+
+    expect(result.current).toEqual({
+      virtualNumbers: numbers,
+      defaultVirtualNumber: numbers[1],
+    });
+  });
+});
+
+describe('useActiveCall', () => {
+  it('re-renders with the call in focus when calls change', () => {
+    const { softphone, events, instance } = createSoftphone();
+    const { result } = renderHook(() => useActiveCall(), instance);
+    expect(result.current).toBeNull();
+
+    const ringing = createSession().instance;
+    softphone.getSessions.mockReturnValue([ringing]);
+    act(() => events.emit('callCreated', 'Incoming', ringing, {}));
+    expect(result.current).toBe(ringing);
+
+    const established = createSession(Date.now()).instance;
+    softphone.getActiveSession.mockReturnValue(established);
+    act(() =>
+      events.emit('callStateChange', established, 'ringing', 'connected')
+    );
+    expect(result.current).toBe(established);
+  });
+});
+
+describe('useCallTimer', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('counts seconds since answer and stops when the call ends', () => {
+    const { session, instance } = createSession(Date.now());
+    const { result } = renderHook(() => useCallTimer(instance));
+
+    act(() => jest.advanceTimersByTime(3000));
+    expect(result.current).toBe(3);
+
+    session.endedAt = Date.now();
+    act(() => jest.advanceTimersByTime(5000));
+    expect(result.current).toBe(3);
+  });
+
+  it('is 0 before the call is answered', () => {
+    const { instance } = createSession();
+    const { result } = renderHook(() => useCallTimer(instance));
+
+    act(() => jest.advanceTimersByTime(2000));
+
+    expect(result.current).toBe(0);
+  });
+});
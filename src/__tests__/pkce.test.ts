@@ -0,0 +1,15 @@
+import { createCodeChallenge, createRandomString } from '../utils/pkce';
+
+describe('createCodeChallenge', () => {
+  it('matches the RFC 7636 appendix B example', () => {
+    expect(
+      createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')
+    ).toBe('E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM');
+  });
+});
+
+describe('createRandomString', () => {
+  it('returns 43 URL-safe characters for the default 32 bytes', () => {
+    expect(createRandomString()).toMatch(/^[A-Za-z0-9_-]{43}$/);
+  });
+});
@@ -0,0 +1,34 @@
+import { getAudioDirection, isRemoteHoldDirection } from '../utils/sdp';
+
+const sdp = (...lines: string[]): string =>
+  ['v=0', 'o=- 1 1 IN IP4 192.0.2.1', 's=-', 't=0 0', ...lines].join('\r\n');
+
+describe('getAudioDirection', () => {
+  it.each`
+    case                                     | body                                                                                    | direction
+    ${'no direction attribute'}              | ${sdp('m=audio 4000 RTP/AVP 0')}                                                        | ${'sendrecv'}
+    ${'audio sendrecv'}                      | ${sdp('m=audio 4000 RTP/AVP 0', 'a=sendrecv')}                                          | ${'sendrecv'}
+    ${'audio sendonly'}                      | ${sdp('m=audio 4000 RTP/AVP 0', 'a=rtpmap:0 PCMU/8000', 'a=sendonly')}                  | ${'sendonly'}
+    ${'audio recvonly'}                      | ${sdp('m=audio 4000 RTP/AVP 0', 'a=recvonly')}                                          | ${'recvonly'}
+    ${'audio inactive'}                      | ${sdp('m=audio 4000 RTP/AVP 0', 'a=inactive')}                                          | ${'inactive'}
+    ${'session-level attribute only'}        | ${sdp('a=sendonly', 'm=audio 4000 RTP/AVP 0')}                                          | ${'sendonly'}
+    ${'media-level overrides session-level'} | ${sdp('a=inactive', 'm=audio 4000 RTP/AVP 0', 'a=recvonly')}                            | ${'recvonly'}
+    ${'attribute of a later video m-line'}   | ${sdp('m=audio 4000 RTP/AVP 0', 'm=video 4002 RTP/AVP 96', 'a=inactive')}               | ${'sendrecv'}
+    ${'audio after a video m-line'}          | ${sdp('m=video 4002 RTP/AVP 96', 'a=inactive', 'm=audio 4000 RTP/AVP 0', 'a=sendonly')} | ${'sendonly'}
+    ${'LF line endings'}                     | ${'v=0\nm=audio 4000 RTP/AVP 0\na=inactive\n'}                                          | ${'inactive'}
+  `('reads $case as $direction', ({ body, direction }) => {
+    expect(getAudioDirection(body)).toBe(direction);
+  });
+});
+
+describe('isRemoteHoldDirection', () => {
+  it.each`
+    direction     | held
+    ${'sendrecv'} | ${false}
+    ${'recvonly'} | ${false}
+    ${'sendonly'} | ${true}
+    ${'inactive'} | ${true}
+  `('treats $direction as held: $held', ({ direction, held }) => {
+    expect(isRemoteHoldDirection(direction)).toBe(held);
+  });
+});
@@ -1,3 +1,33 @@
-export const BASE_URL = 'https://api.frejun.com/api'
+export const BASE_URL = 'https://api.frejun.com/api';
+export const OAUTH_AUTHORIZE_URL =
+  'https://product.frejun.com/oauth/authorize/';
+export const OAUTH_LOGIN_TIMEOUT = 600000;
+export const SIP_PORT = 9080;
+export const SIP_CONNECTION_TIMEOUT = 15;
 export const AUTH_TOKEN_STORAGE_KEY = 'com.frejun.sdk.authtokens';
-export const REGISTRATION_EXPIRES = 600;
\ No newline at end of file
+// Bump when the stored token layout changes and teach EncryptedTokenStore to migrate the old one.
+export const TOKEN_STORE_VERSION = 2;
+export const CALL_HISTORY_STORAGE_KEY = 'com.frejun.sdk.callhistory';
+export const REGISTRATION_EXPIRES = 600;
+export const MAX_CONCURRENT_CALLS = 2;
+export const CALL_SETUP_TIMEOUT = 60000;
+export const DTMF_DEFAULT_DURATION = 100;
+export const DTMF_DEFAULT_INTER_TONE_GAP = 70;
+export const QUALITY_SAMPLE_INTERVAL = 2000;
+export const QUALITY_GOOD_MOS = 4.0;
+export const QUALITY_FAIR_MOS = 3.1;
+export const RECONNECT_INITIAL_DELAY = 1000;
+export const RECONNECT_MULTIPLIER = 2;
+export const RECONNECT_MAX_DELAY = 30000;
+export const RECONNECT_JITTER = 0.2;
+export const RECONNECT_MAX_ATTEMPTS = 10;
+export const REREGISTER_MAX_ATTEMPTS = 3;
+export const CALL_HISTORY_MAX_RECORDS = 200;
+export const CALL_HISTORY_MAX_AGE_DAYS = 30;
+export const API_TIMEOUT = 15000;
+export const API_MAX_RETRIES = 2;
+export const API_RETRY_DELAY = 500;
+export const TOKEN_REFRESH_MARGIN = 60000;
+export const TOKEN_REFRESH_RETRY_DELAY = 30000;
+// setTimeout overflows above 2^31 - 1 ms and fires immediately.
+export const MAX_TIMER_DELAY = 2147483647;
@@ -1,336 +1,664 @@
 import * as Exceptions from '../exceptions';
-import { BASE_URL } from "../constants";
-import type { TokenData } from "../services/TokenManager";
-import { TokenManager } from "../services/TokenManager";
-import { Linking } from "react-native";
+import type { ApiClient } from '../services/ApiClient';
+import type {
+  Availability,
+  CodeExchanger,
+  PendingLogin,
+  ResolvedSoftphoneConfig,
+  TokenPayload,
+  TokenProvider,
+  TokenSet,
+  TokenStore,
+} from '../types';
+import { Linking } from 'react-native';
 import { Buffer } from 'buffer';
 import { isTokenValid } from '../utils/validation';
+import { createCodeChallenge, createRandomString } from '../utils/pkce';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Auth');
+
+/**
+ * Custom token stores may reject with anything; callers always get a `StorageException`.
+ */
+const withStorageErrors = async <T>(
+  operation: 'get' | 'save' | 'clear',
+  task: () => Promise<T>
+): Promise<T> => {
+  try {
+    return await task();
+  } catch (error) {
+    if (error instanceof Exceptions.StorageException) throw error;
+    throw new Exceptions.StorageException(
+      'Auth',
+      operation,
+      `Token store ${operation} failed.`,
+      { cause: error }
+    );
+  }
+};
+
+/**
+ * How tokens are minted. With `clientSecret` the SDK calls the OAuth endpoints itself;
+ * with `tokenProvider` / `codeExchanger` the app's own backend does it.
+ */
+export interface AuthCredentials {
+  clientId: string;
+  clientSecret?: string;
+  tokenProvider?: TokenProvider;
+  codeExchanger?: CodeExchanger;
+}
+
+export interface AuthContext {
+  api: ApiClient;
+  config: ResolvedSoftphoneConfig;
+  tokenStore: TokenStore;
+  credentials: AuthCredentials;
+}
 
 export interface SipCredentials {
-    username: string;
-    accessToken: string;
+  username: string;
+  accessToken: string;
 }
 
 export interface VirtualNumber {
-    id: number;
-    name: string;
-    country_code: string;
-    number: string;
-    location: string;
-    type: string;
-    default_calling_number: boolean;
-    default_sms_number: boolean;
+  id: number;
+  name: string;
+  country_code: string;
+  number: string;
+  location: string;
+  type: string;
+  default_calling_number: boolean;
+  default_sms_number: boolean;
 }
 
 class Auth {
-    #accessToken: string | null = null;
-    #refreshToken: string | null = null;
-    #email: string | null = null;
-    public permissions: any[] = [];
-    public sipUsername: string | null = null;
-    public sipToken: string | null = null;
-    #virtualNumbers: VirtualNumber[] = [];
-    #primaryVirtualNumber: string | null = null;
-
-    public constructor(tokenData?: TokenData) {
-        if (tokenData) {
-            this.#accessToken = tokenData.accessToken;
-            this.#refreshToken = tokenData.refreshToken;
-            this.#email = tokenData.email;
-        }
-    }
-
-    public static async initialize(): Promise<Auth | null> {
-        console.log('Auth: Initializing...');
-        const tokenData = await TokenManager.get();
-        if (tokenData) {
-            console.log('Auth: Session found in storage.');
-            return new Auth(tokenData);
-        }
-        return null;
+  #accessToken: string | null = null;
+  #refreshToken: string | null = null;
+  #email: string | null = null;
+  #availability: Availability = 'available';
+  public permissions: any[] = [];
+  public sipUsername: string | null = null;
+  public sipToken: string | null = null;
+  #virtualNumbers: VirtualNumber[] = [];
+  #primaryVirtualNumber: string | null = null;
+  #api: ApiClient;
+  #config: ResolvedSoftphoneConfig;
+  #tokenStore: TokenStore;
+  #credentials: AuthCredentials;
+  #refreshPromise: Promise<boolean> | null = null;
+  #registerPromise: Promise<SipCredentials> | null = null;
+  /** Called once after every successful access token refresh. */
+  public onTokensRefreshed: ((tokens: TokenPayload) => void) | null = null;
+
+  public constructor(
+    { api, config, tokenStore, credentials }: AuthContext,
+    tokenData?: TokenPayload
+  ) {
+    this.#api = api;
+    this.#config = config;
+    this.#tokenStore = tokenStore;
+    this.#credentials = credentials;
+    if (tokenData) {
+      this.#accessToken = tokenData.accessToken;
+      this.#refreshToken = tokenData.refreshToken;
+      this.#email = tokenData.email;
+      this.#availability = tokenData.availability ?? 'available';
     }
-
-    public async manualLogin(
-        accessToken: string, 
-        email: string, 
-        refreshToken: string, 
-        clientId?: string, 
-        clientSecret?: string
-    ): Promise<void> {
-        console.log('Auth: processing manual login...');
-
-        // 1. Basic Validation
-        if (!accessToken || !email || !refreshToken) {
-            throw new Exceptions.MissingParameterException('manualLogin', ['accessToken', 'email', 'refreshToken']);
-        }
-
-        // 2. Set state temporarily so refreshAccessToken has access to the refreshToken
-        this.#accessToken = accessToken;
-        this.#email = email;
-        this.#refreshToken = refreshToken;
-
-        const tokenValidationStatus = isTokenValid(accessToken);
-
-        // 3. Handle Expired Token
-        if (tokenValidationStatus === 'EXPIRED') {
-            console.log('Auth: Token is expired. Attempting refresh inside manualLogin...');
-
-            if (clientId && clientSecret) {
-                // Attempt to refresh
-                const refreshSuccess = await this.refreshAccessToken(clientId, clientSecret);
-            
-                if (!refreshSuccess) {
-                    console.error('Auth: Refresh failed during manualLogin.');
-                    this.logout(); // Clean up partial state
-                    throw new Exceptions.InvalidTokenException('manualLogin', 'EXPIRED');
-                }
-                // If success, this.#accessToken is now updated with the new token
-        } else {
-            console.warn('Auth: Token expired and no client credentials provided for refresh.');
-                this.logout();
-                throw new Exceptions.InvalidTokenException('manualLogin', 'EXPIRED');
-            }
-        } 
-        // 4. Handle Invalid Token (Malformed)
-        else if (tokenValidationStatus === 'INVALID') {
-            console.error('Auth: Token is invalid.');
-            this.logout();
-            throw new Exceptions.InvalidTokenException('manualLogin', 'INVALID');
-        }
-
-        // 5. Verify Permissions (using the valid or newly refreshed token)
-        try {
-            console.log('Auth: Verifying access token...');
-            await this.retrieveUserRoles();
-        } catch (error) {
-            console.error('Auth: Manual login failed verification.', error);
-            this.logout();
-            throw error;
-        }
-
-        // 6. Persist to storage
-        await TokenManager.save({
-            accessToken: this.#accessToken!,
-            refreshToken: this.#refreshToken!,
-            email: this.#email!
-        });
-
-        console.log('Auth: Manual session verified and saved.');
+  }
+
+  /**
+   * Restores the stored session for `email`, or the most recently used one.
+   */
+  public static async initialize(
+    context: AuthContext,
+    email?: string
+  ): Promise<Auth | null> {
+    logger.info('Initializing...');
+    const tokenData = await withStorageErrors('get', () =>
+      context.tokenStore.get(email)
+    );
+    if (tokenData) {
+      logger.info('Session found in storage.');
+      return new Auth(context, tokenData);
     }
-
-    public async login({ clientId }: { clientId: string }): Promise<void> {
-        await Linking.openURL(`https://product.frejun.com/oauth/authorize/?client_id=${clientId}`);
+    return null;
+  }
+
+  public async manualLogin(
+    accessToken: string,
+    email: string,
+    refreshToken: string
+  ): Promise<void> {
+    logger.info('processing manual login...');
+
+    // 1. Basic Validation
+    if (!accessToken || !email || !refreshToken) {
+      throw new Exceptions.MissingParameterException('manualLogin', [
+        'accessToken',
+        'email',
+        'refreshToken',
+      ]);
     }
 
-    public async handleRedirect(url: string, { clientId, clientSecret }: { clientId: string, clientSecret: string }): Promise<void> {
-        console.log("Auth: Handling redirect URL...");
-        const queryString = url.split('?')[1];
-        if (!queryString) throw new Exceptions.InvalidValueException('handleRedirect', 'url', url);
+    // 2. Set state temporarily so refreshAccessToken has access to the refreshToken
+    this.#accessToken = accessToken;
+    this.#email = email;
+    this.#refreshToken = refreshToken;
 
-        const params = new URLSearchParams(queryString);
-        const code = params.get('code');
-        const email = params.get('email') ? decodeURIComponent(params.get('email')!) : null;
+    const tokenValidationStatus = isTokenValid(accessToken);
 
-        if (!code || !email) throw new Exceptions.MissingParameterException('handleRedirect', ['code', 'email']);
-        console.log('Auth: Exchanging code for tokens...');
+    // 3. Handle Expired Token
+    if (tokenValidationStatus === 'EXPIRED') {
+      logger.info('Token is expired. Attempting refresh inside manualLogin...');
 
-        const tokenData = await this.exchangeCodeForToken(code, clientId, clientSecret);
-
-        this.#accessToken = tokenData.access_token;
-        this.#refreshToken = tokenData.refresh_token;
-        this.#email = email;
-
-        await this.retrieveUserRoles();
-        await TokenManager.save({ accessToken: this.#accessToken, refreshToken: this.#refreshToken, email: this.#email });
-        console.log('Auth: Session saved to storage.');
-    }
+      if (this.canRefresh) {
+        // Attempt to refresh
+        const refreshSuccess = await this.refreshAccessToken();
 
-    public async refreshAccessToken(clientId: string, clientSecret: string): Promise<boolean> {
-        console.log('Auth: 🔄 Attempting to refresh access token...');
-        if (!this.#refreshToken) return false;
-
-        try {
-            const credentials = `${clientId}:${clientSecret}`;
-            const encodedCredentials = Buffer.from(credentials).toString('base64');
-
-            const response = await fetch(`${BASE_URL}/v2/oauth/token/refresh/`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${encodedCredentials}`,
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({ refresh: this.#refreshToken })
-            });
-
-            const data = await response.json();
-
-            if (response.ok && data.success) {
-                console.log('Auth: ✅ Token refresh successful.');
-                this.#accessToken = data.access;
-                this.#refreshToken = data.refresh;
-
-                if (this.#email) {
-                    await TokenManager.save({
-                        accessToken: this.#accessToken!,
-                        refreshToken: this.#refreshToken!,
-                        email: this.#email
-                    });
-                }
-                await this.retrieveUserRoles();
-                return true;
-            }
-            return false;
-        } catch (error) {
-            console.error('Auth: Error during token refresh.', error);
-            return false;
+        if (!refreshSuccess) {
+          logger.error('Refresh failed during manualLogin.');
+          await this.#discardSession(); // Clean up partial state
+          throw new Exceptions.InvalidTokenException('manualLogin', 'EXPIRED');
         }
+        // If success, this.#accessToken is now updated with the new token
+      } else {
+        logger.warn(
+          'Token expired and no client credentials provided for refresh.'
+        );
+        await this.#discardSession();
+        throw new Exceptions.InvalidTokenException('manualLogin', 'EXPIRED');
+      }
     }
-
-    public async registerSoftphone(): Promise<SipCredentials> {
-        if (!this.#accessToken || !this.#email) {
-            throw new Exceptions.InvalidTokenException('registerSoftphone', 'INVALID');
-        }
-        const res = await fetch(BASE_URL + `/v1/calls/register-softphone/?email=${encodeURIComponent(this.#email)}`, {
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${this.#accessToken}` }
-        });
-
-        if (res.status === 401) throw new Exceptions.InvalidTokenException('registerSoftphone', 'EXPIRED');
-        if (!res.ok) throw new Exceptions.UnknownException('registerSoftphone', `Server responded with status ${res.status}`);
-
-        const response = await res.json();
-        if (!response.success) throw new Exceptions.UnknownException('registerSoftphone', response.message);
-
-        this.sipUsername = response.username;
-        this.sipToken = response.access_token;
-        return { username: response.username, accessToken: response.access_token };
+    // 4. Handle Invalid Token (Malformed)
+    else if (tokenValidationStatus === 'INVALID') {
+      logger.error('Token is invalid.');
+      await this.#discardSession();
+      throw new Exceptions.InvalidTokenException('manualLogin', 'INVALID');
     }
 
-    public async retrieveUserProfile(): Promise<string> {
-        console.log('Auth: Retrieving user profile...');
-        if (!this.#accessToken || !this.#email) throw new Exceptions.InvalidTokenException('retrieveUserProfile', 'INVALID');
-
-        const res = await fetch(`${BASE_URL}/v2/integrations/profile/?email=${encodeURIComponent(this.#email)}`, {
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${this.#accessToken}` }
-        });
-
-        if (res.status === 401) throw new Exceptions.InvalidTokenException('retrieveUserProfile', 'EXPIRED');
-        if (!res.ok) throw new Exceptions.UnknownException('retrieveUserProfile', `Server responded with status ${res.status}`);
-
-        const response = await res.json();
-        if (!response.success || !response.data?.edge_domain) throw new Exceptions.UnknownException('retrieveUserProfile', response.message || 'Edge domain not found.');
-
-        if (Array.isArray(response.data.virtual_numbers)) {
-            this.#virtualNumbers = response.data.virtual_numbers;
-            console.log(`Auth: Stored ${this.#virtualNumbers.length} virtual numbers.`);
-
-            // Find default
-            const defaultVN = this.#virtualNumbers.find(vn => vn.default_calling_number === true);
-            if (defaultVN) {
-                this.#primaryVirtualNumber = `${defaultVN.country_code}${defaultVN.number}`;
-            }
-        }
-
-        return response.data.edge_domain;
+    // 5. Verify Permissions (using the valid or newly refreshed token)
+    try {
+      logger.info('Verifying access token...');
+      await this.retrieveUserRoles();
+    } catch (error) {
+      logger.error('Manual login failed verification.', error);
+      await this.#discardSession();
+      throw error;
     }
 
-    get getVirtualNumbers(): VirtualNumber[] {
-        return this.#virtualNumbers;
+    // 6. Persist to storage
+    await this.#saveTokens();
+
+    logger.info('Manual session verified and saved.');
+  }
+
+  /**
+   * Opens the authorize page with a fresh `state` nonce and PKCE challenge.
+   * Starting a new login replaces any attempt still pending.
+   */
+  public async login(): Promise<void> {
+    const pending: PendingLogin = {
+      state: createRandomString(),
+      codeVerifier: createRandomString(),
+      redirectUri: this.#config.oauthRedirectUri,
+      createdAt: Date.now(),
+    };
+    await withStorageErrors('save', () =>
+      this.#tokenStore.savePendingLogin(pending)
+    );
+
+    const params = new URLSearchParams({
+      client_id: this.#credentials.clientId,
+      state: pending.state,
+      code_challenge: createCodeChallenge(pending.codeVerifier),
+      code_challenge_method: 'S256',
+    });
+    if (pending.redirectUri) params.set('redirect_uri', pending.redirectUri);
+
+    const authorizeUrl = this.#config.oauthAuthorizeUrl;
+    const separator = authorizeUrl.includes('?') ? '&' : '?';
+    await Linking.openURL(`${authorizeUrl}${separator}${params.toString()}`);
+  }
+
+  public async handleRedirect(url: string): Promise<void> {
+    logger.info('Handling redirect URL...');
+    const queryString = url.split('?')[1]?.split('#')[0];
+    if (!queryString)
+      throw new Exceptions.InvalidValueException('handleRedirect', 'url', url);
+
+    const params = new URLSearchParams(queryString);
+    const code = params.get('code');
+    const email = params.get('email')
+      ? decodeURIComponent(params.get('email')!)
+      : null;
+    const pending = await this.#consumePendingLogin(params.get('state'));
+
+    const error = params.get('error');
+    if (error)
+      throw new Exceptions.UnauthorizedException(
+        'handleRedirect',
+        params.get('error_description') || error
+      );
+    if (!code || !email)
+      throw new Exceptions.MissingParameterException('handleRedirect', [
+        'code',
+        'email',
+      ]);
+    logger.info('Exchanging code for tokens...');
+
+    const tokenData = await this.exchangeCodeForToken(code, email, pending);
+
+    this.#accessToken = tokenData.accessToken;
+    this.#refreshToken = tokenData.refreshToken;
+    this.#email = email;
+
+    await this.retrieveUserRoles();
+    await this.#saveTokens();
+    logger.info('Session saved to storage.');
+  }
+
+  /**
+   * Checks the redirect's `state` against the pending login and removes it, so the same
+   * redirect cannot be replayed. A mismatched state leaves the genuine attempt in place.
+   */
+  async #consumePendingLogin(state: string | null): Promise<PendingLogin> {
+    const pending = await withStorageErrors('get', () =>
+      this.#tokenStore.getPendingLogin()
+    );
+    if (!pending)
+      throw new Exceptions.InvalidLoginStateException(
+        'handleRedirect',
+        'MISSING'
+      );
+    if (!state || state !== pending.state)
+      throw new Exceptions.InvalidLoginStateException(
+        'handleRedirect',
+        'MISMATCH'
+      );
+
+    await withStorageErrors('clear', () =>
+      this.#tokenStore.clearPendingLogin()
+    );
+    if (Date.now() - pending.createdAt > this.#config.oauthLoginTimeoutMs) {
+      throw new Exceptions.InvalidLoginStateException(
+        'handleRedirect',
+        'EXPIRED'
+      );
     }
-
-    get getPrimaryVN(): string | null {
-        return this.#primaryVirtualNumber;
+    return pending;
+  }
+
+  /**
+   * Concurrent callers share one in-flight refresh, so the refresh token is only spent once.
+   */
+  public refreshAccessToken(): Promise<boolean> {
+    if (!this.#refreshPromise) {
+      this.#refreshPromise = this.#refreshAccessToken().finally(() => {
+        this.#refreshPromise = null;
+      });
     }
-
-    public async retrieveUserRoles(): Promise<void> {
-        console.log('Auth: Retrieving user roles...');
-        if (!this.#accessToken || !this.#email) throw new Exceptions.InvalidTokenException('retrieveUserRoles', 'INVALID');
-
-        const res = await fetch(`${BASE_URL}/v1/auth/retrieve-user-roles/?email=${encodeURIComponent(this.#email)}`, {
-            method: 'GET',
-            headers: { 'Authorization': `Bearer ${this.#accessToken}` }
-        });
-
-        if (res.status === 401) throw new Exceptions.InvalidTokenException('retrieveUserRoles', 'EXPIRED');
-        if (!res.ok) throw new Exceptions.UnknownException('retrieveUserRoles', `Server responded with status ${res.status}`);
-
-        const response = await res.json();
-        this.permissions = response?.data?.map((role: any) => role.permissions)?.flat(2) || [];
-
-        const hasSDKPermission = this.permissions.find(p => p.action === "integrations (iframe and sdk)");
-        if (!hasSDKPermission) {
-            await this.logout();
-            throw new Exceptions.PermissionDeniedException('retrieveUserRoles', 'User does not have permission to use the SDK.');
-        }
+    return this.#refreshPromise;
+  }
+
+  /** Whether an expired access token can be replaced without the user signing in again. */
+  get canRefresh(): boolean {
+    return !!(
+      this.#credentials.tokenProvider || this.#credentials.clientSecret
+    );
+  }
+
+  async #refreshAccessToken(): Promise<boolean> {
+    logger.info('🔄 Attempting to refresh access token...');
+    if (!this.#refreshToken || !this.#email || !this.canRefresh) return false;
+
+    try {
+      const { tokenProvider } = this.#credentials;
+      const tokens = tokenProvider
+        ? await tokenProvider({
+            refreshToken: this.#refreshToken,
+            email: this.#email,
+          })
+        : await this.#refreshWithClientSecret(this.#refreshToken);
+      if (!tokens?.accessToken) return false;
+
+      logger.info('✅ Token refresh successful.');
+      this.#accessToken = tokens.accessToken;
+      // A provider that does not rotate refresh tokens may leave it out.
+      this.#refreshToken = tokens.refreshToken || this.#refreshToken;
+    } catch (error) {
+      logger.error('Error during token refresh.', error);
+      return false;
     }
 
-    public async logout(): Promise<void> {
-        this.#accessToken = null;
-        this.#refreshToken = null;
-        this.#email = null;
-        this.permissions = [];
-        await TokenManager.clear();
-        console.log('Auth: Logged out.');
+    // The old refresh token is spent, so a failed write must not read as a failed refresh.
+    await this.#saveTokens();
+    try {
+      await this.retrieveUserRoles();
+    } catch (error) {
+      logger.error('Error during token refresh.', error);
+      return false;
     }
-
-    public isLoggedIn(): boolean {
-        return !!this.#accessToken;
+    this.onTokensRefreshed?.({
+      accessToken: this.#accessToken!,
+      refreshToken: this.#refreshToken!,
+      email: this.#email,
+    });
+    return true;
+  }
+
+  async #refreshWithClientSecret(
+    refreshToken: string
+  ): Promise<TokenSet | null> {
+    const data = await this.#api.request(
+      'refreshAccessToken',
+      '/v2/oauth/token/refresh/',
+      {
+        method: 'POST',
+        headers: this.#clientAuthHeaders(),
+        body: { refresh: refreshToken },
+      }
+    );
+    return data?.success
+      ? { accessToken: data.access, refreshToken: data.refresh }
+      : null;
+  }
+
+  /**
+   * Fetches fresh SIP credentials. Concurrent callers share one request.
+   */
+  public registerSoftphone(): Promise<SipCredentials> {
+    if (!this.#registerPromise) {
+      this.#registerPromise = this.#registerSoftphone().finally(() => {
+        this.#registerPromise = null;
+      });
     }
-
-    public getAccessToken(): string | null {
-        return this.#accessToken;
+    return this.#registerPromise;
+  }
+
+  async #registerSoftphone(): Promise<SipCredentials> {
+    if (!this.#accessToken || !this.#email) {
+      throw new Exceptions.InvalidTokenException(
+        'registerSoftphone',
+        'INVALID'
+      );
     }
-
-    public getPermissions(): any[] {
-        return this.permissions;
+    const response = await this.#api.request(
+      'registerSoftphone',
+      '/v1/calls/register-softphone/',
+      {
+        query: { email: this.#email },
+        headers: this.#authHeaders(),
+      }
+    );
+    if (!response?.success)
+      throw new Exceptions.UnknownException(
+        'registerSoftphone',
+        response.message
+      );
+
+    this.sipUsername = response.username;
+    this.sipToken = response.access_token;
+    return { username: response.username, accessToken: response.access_token };
+  }
+
+  public async retrieveUserProfile(): Promise<string> {
+    logger.info('Retrieving user profile...');
+    if (!this.#accessToken || !this.#email)
+      throw new Exceptions.InvalidTokenException(
+        'retrieveUserProfile',
+        'INVALID'
+      );
+
+    const response = await this.#api.request(
+      'retrieveUserProfile',
+      '/v2/integrations/profile/',
+      {
+        query: { email: this.#email },
+        headers: this.#authHeaders(),
+      }
+    );
+    if (!response?.success || !response.data?.edge_domain)
+      throw new Exceptions.UnknownException(
+        'retrieveUserProfile',
+        response.message || 'Edge domain not found.'
+      );
+
+    if (Array.isArray(response.data.virtual_numbers)) {
+      this.#virtualNumbers = response.data.virtual_numbers;
+      logger.info(`Stored ${this.#virtualNumbers.length} virtual numbers.`);
+
+      // Find default
+      const defaultVN = this.#virtualNumbers.find(
+        (vn) => vn.default_calling_number === true
+      );
+      if (defaultVN) {
+        this.#primaryVirtualNumber = `${defaultVN.country_code}${defaultVN.number}`;
+      }
     }
 
-    private async exchangeCodeForToken(code: string, clientId: string, clientSecret: string): Promise<{ access_token: string, refresh_token: string }> {
-        console.log('Auth: Exchanging authorization code for tokens...');
-        try {
-            const credentials = `${clientId}:${clientSecret}`;
-            const encodedCredentials = Buffer.from(credentials).toString('base64');
-            const url = `${BASE_URL}/v2/oauth/token/?code=${code}`;
-
-            const response = await fetch(url, {
-                method: 'GET',
-                headers: { 'Authorization': `Bearer ${encodedCredentials}` },
-            });
-
-            if (!response.ok) {
-                let errorMessage = `Server responded with status ${response.status}`;
-                try {
-                    const errorData = await response.json();
-                    if (errorData.message) errorMessage = errorData.message;
-                } catch (e) { console.warn('Auth: JSON parse failed for error response'); }
-                throw new Exceptions.UnauthorizedException('exchangeCodeForToken', errorMessage);
-            }
-
-            const data = await response.json();
-
-            if (data.success) {
-                return { access_token: data.access_token, refresh_token: data.refresh_token };
-            } else {
-                throw new Exceptions.UnauthorizedException('exchangeCodeForToken', data.message || 'Token exchange failed.');
-            }
-        } catch (error) {
-            console.error('Auth: Error in exchangeCodeForToken:', error);
-            if (error instanceof Exceptions.UnauthorizedException) throw error;
-            throw new Exceptions.UnknownException('exchangeCodeForToken', error instanceof Error ? error.message : 'Unknown error');
-        }
+    return response.data.edge_domain;
+  }
+
+  get getVirtualNumbers(): VirtualNumber[] {
+    return this.#virtualNumbers;
+  }
+
+  get getPrimaryVN(): string | null {
+    return this.#primaryVirtualNumber;
+  }
+
+  public async retrieveUserRoles(): Promise<void> {
+    logger.info('Retrieving user roles...');
+    if (!this.#accessToken || !this.#email)
+      throw new Exceptions.InvalidTokenException(
+        'retrieveUserRoles',
+        'INVALID'
+      );
+
+    const response = await this.#api.request(
+      'retrieveUserRoles',
+      '/v1/auth/retrieve-user-roles/',
+      {
+        query: { email: this.#email },
+        headers: this.#authHeaders(),
+      }
+    );
+    this.permissions =
+      response?.data?.map((role: any) => role.permissions)?.flat(2) || [];
+
+    const hasSDKPermission = this.permissions.find(
+      (p) => p.action === 'integrations (iframe and sdk)'
+    );
+    if (!hasSDKPermission) {
+      await this.#discardSession();
+      throw new Exceptions.PermissionDeniedException(
+        'retrieveUserRoles',
+        'User does not have permission to use the SDK.'
+      );
     }
-
-     public getRefreshToken(): string | null {
-        return this.#refreshToken;
+  }
+
+  /** Shared with `Softphone` so its REST calls get the same timeouts and cancellation. */
+  get api(): ApiClient {
+    return this.#api;
+  }
+
+  get availability(): Availability {
+    return this.#availability;
+  }
+
+  /**
+   * Stores the agent's availability with the session so it is restored on the next launch.
+   */
+  public async setAvailability(availability: Availability): Promise<void> {
+    const previous = this.#availability;
+    this.#availability = availability;
+    if (!this.isLoggedIn()) return;
+    try {
+      await this.#saveTokens();
+    } catch (error) {
+      this.#availability = previous;
+      throw error;
     }
-    
-    // Ensure this getter exists
-    public getEmail(): string | null {
-        return this.#email;
+  }
+
+  async #saveTokens(): Promise<void> {
+    const tokens = {
+      accessToken: this.#accessToken!,
+      refreshToken: this.#refreshToken!,
+      email: this.#email!,
+      availability: this.#availability,
+    };
+    await withStorageErrors('save', () => this.#tokenStore.save(tokens));
+  }
+
+  #authHeaders(): Record<string, string> {
+    return { Authorization: `Bearer ${this.#accessToken}` };
+  }
+
+  #clientAuthHeaders(): Record<string, string> {
+    const { clientId, clientSecret } = this.#credentials;
+    return {
+      Authorization: `Bearer ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`,
+    };
+  }
+
+  public async logout(): Promise<void> {
+    const email = this.#email;
+    this.#accessToken = null;
+    this.#refreshToken = null;
+    this.#email = null;
+    this.#availability = 'available';
+    this.permissions = [];
+    if (email)
+      await withStorageErrors('clear', () => this.#tokenStore.clear(email));
+    logger.info('Logged out.');
+  }
+
+  /** Drops a session that failed verification; the caller reports the verification error, not a storage one. */
+  async #discardSession(): Promise<void> {
+    try {
+      await this.logout();
+    } catch (error) {
+      logger.error('Failed to clear tokens.', error);
     }
-
-    get getSipToken() { return this.sipToken }
+  }
+
+  public isLoggedIn(): boolean {
+    return !!this.#accessToken;
+  }
+
+  public getAccessToken(): string | null {
+    return this.#accessToken;
+  }
+
+  public getPermissions(): any[] {
+    return this.permissions;
+  }
+
+  private async exchangeCodeForToken(
+    code: string,
+    email: string,
+    pending: PendingLogin
+  ): Promise<Required<TokenSet>> {
+    logger.info('Exchanging authorization code for tokens...');
+    const { clientSecret, codeExchanger } = this.#credentials;
+    if (codeExchanger) {
+      try {
+        const tokens = await codeExchanger({
+          code,
+          codeVerifier: pending.codeVerifier,
+          redirectUri: pending.redirectUri,
+          email,
+        });
+        if (!tokens?.accessToken || !tokens.refreshToken)
+          throw new Error('codeExchanger returned no tokens.');
+        return tokens;
+      } catch (error) {
+        logger.error('Error in exchangeCodeForToken:', error);
+        if (error instanceof Exceptions.BaseException) throw error;
+        throw new Exceptions.UnauthorizedException(
+          'exchangeCodeForToken',
+          error instanceof Error ? error.message : 'Token exchange failed.',
+          { cause: error }
+        );
+      }
+    }
+    if (!clientSecret)
+      throw new Exceptions.MissingParameterException('handleRedirect', [
+        'clientSecret',
+        'codeExchanger',
+      ]);
+
+    try {
+      // Authorization codes are single use, so this GET is never retried.
+      const data = await this.#api.request(
+        'exchangeCodeForToken',
+        '/v2/oauth/token/',
+        {
+          query: {
+            code,
+            code_verifier: pending.codeVerifier,
+            ...(pending.redirectUri
+              ? { redirect_uri: pending.redirectUri }
+              : {}),
+          },
+          headers: this.#clientAuthHeaders(),
+          retries: 0,
+        }
+      );
+
+      if (data?.success) {
+        return {
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token,
+        };
+      } else {
+        throw new Exceptions.UnauthorizedException(
+          'exchangeCodeForToken',
+          data.message || 'Token exchange failed.'
+        );
+      }
+    } catch (error) {
+      logger.error('Error in exchangeCodeForToken:', error);
+      if (
+        error instanceof Exceptions.InvalidTokenException ||
+        error instanceof Exceptions.ServerException
+      ) {
+        const details = error.httpStatus
+          ? `Server responded with status ${error.httpStatus}`
+          : error.message;
+        throw new Exceptions.UnauthorizedException(
+          'exchangeCodeForToken',
+          details,
+          { httpStatus: error.httpStatus, cause: error }
+        );
+      }
+      if (error instanceof Exceptions.BaseException) throw error;
+      throw new Exceptions.UnknownException(
+        'exchangeCodeForToken',
+        error instanceof Error ? error.message : 'Unknown error',
+        { cause: error }
+      );
+    }
+  }
+
+  public getRefreshToken(): string | null {
+    return this.#refreshToken;
+  }
+
+  // Ensure this getter exists
+  public getEmail(): string | null {
+    return this.#email;
+  }
+
+  get getSipToken() {
+    return this.sipToken;
+  }
+  get config(): ResolvedSoftphoneConfig {
+    return this.#config;
+  }
 }
 
-export default Auth;
\ No newline at end of file
+export default Auth;
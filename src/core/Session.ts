@@ -1,83 +1,1097 @@
-import { Session as SipSession, SessionState, Invitation, Inviter } from "sip.js";
-import { SessionType } from "../utils/validation";
-import UserAgent from "./UserAgent";
-import type { Listeners } from "../types";
+import {
+  Session as SipSession,
+  SessionState,
+  Invitation,
+  Inviter,
+  UserAgent as SIPUserAgent,
+} from 'sip.js';
+import type { Core, Notification, URI, Web } from 'sip.js';
+import {
+  SessionType,
+  toDigits,
+  validatePhoneNumber,
+} from '../utils/validation';
+import { getAudioDirection, isRemoteHoldDirection } from '../utils/sdp';
+import {
+  getEndReasonFromCancel,
+  getEndReasonFromResponse,
+  parseReasonHeader,
+} from '../utils/sip';
+import {
+  InvalidCallStateException,
+  InvalidValueException,
+  MediaException,
+  SipRequestException,
+} from '../exceptions';
+import {
+  DTMF_DEFAULT_DURATION,
+  DTMF_DEFAULT_INTER_TONE_GAP,
+} from '../constants';
+import { CallQualityMonitor } from '../services/CallQualityMonitor';
+import UserAgent from './UserAgent';
+import type {
+  CallEndReason,
+  CallMetadata,
+  CallProgress,
+  CallQualitySnapshot,
+  CallQualitySummary,
+  CallRecord,
+  CallState,
+  CallStateTransition,
+  DtmfMethod,
+  DtmfOptions,
+  HoldOrigin,
+  RejectOptions,
+  SessionEvents,
+  SessionType as CallDirection,
+  SoftphoneEvents,
+  TransferProgress,
+} from '../types';
+import { createLogger } from '../utils/logger';
+import { TypedEventEmitter } from '../utils/EventEmitter';
+
+const logger = createLogger('Session');
+
+const DTMF_TONES = /^[0-9A-D#*]+$/;
+const SIP_FRAG_STATUS_LINE = /^SIP\/2\.0\s+(\d{3})\s*(.*)$/m;
+const REJECT_STATUS_CODES = [486, 603, 480];
+
+// Anything not listed here is a bug in the caller and is ignored with a warning.
+const CALL_STATE_TRANSITIONS: Record<CallState, CallState[]> = {
+  'dialing': ['ringing', 'early-media', 'connected', 'ending', 'ended'],
+  'ringing': ['early-media', 'connected', 'ending', 'ended'],
+  'early-media': ['ringing', 'connected', 'ending', 'ended'],
+  'connected': ['on-hold', 'reconnecting', 'ending', 'ended'],
+  'on-hold': ['connected', 'reconnecting', 'ending', 'ended'],
+  'reconnecting': ['connected', 'on-hold', 'ending', 'ended'],
+  'ending': ['ended'],
+  'ended': [],
+};
+
+export interface AnswerOptions {
+  /** Put every other established call on hold before accepting. Defaults to true. */
+  holdOtherCalls?: boolean;
+}
 
 export class Session {
-    #state: SessionState;
-    #sipSession: SipSession;
-    #sessionType: typeof SessionType;
-    #userAgent: UserAgent;
-    #remoteContact?: string;
-    #listeners: Listeners;
-
-    constructor(
-        session: Invitation | Inviter,
-        type: typeof SessionType,
-        userAgent: UserAgent,
-        listeners: Listeners
-    ) {
-        console.log("Session constructor called.");
-        this.#sipSession = session;
-        this.#sessionType = type;
-        this.#userAgent = userAgent;
-        this.#listeners = listeners;
-        this.#state = session.state;
-
-        session.stateChange.addListener((newState) => {
-            console.log(`Session state changed from ${this.#state} to ${newState}`);
-            this.#state = newState;
-            switch (newState) {
-                case SessionState.Establishing:
-                    if (this.#listeners.onCallRinging) this.#listeners.onCallRinging(this);
-                    break;
-                case SessionState.Established:
-                    if (this.#listeners.onCallAnswered) this.#listeners.onCallAnswered(this);
-                    break;
-                case SessionState.Terminated:
-                    if (this.#listeners.onCallHangup) this.#listeners.onCallHangup(this);
-                    this.#userAgent.clearSession();
-                    break;
-            }
+  #id: string;
+  #state: SessionState;
+  #sipSession: SipSession;
+  #sessionType: typeof SessionType;
+  #userAgent: UserAgent;
+  #remoteContact?: string;
+  #softphoneEvents: TypedEventEmitter<SoftphoneEvents>;
+  #events = new TypedEventEmitter<SessionEvents>('Session');
+  #isOnHold = false;
+  #isRemoteOnHold = false;
+  #holdPending = false;
+  #ringingSent = false;
+  #isMuted = false;
+  #dtmfQueue: Promise<void> = Promise.resolve();
+  #qualityMonitor: CallQualityMonitor | null = null;
+  #createdAt = Date.now();
+  #ringingAt?: number;
+  #answeredAt?: number;
+  #endedAt?: number;
+  #endReason?: CallEndReason;
+  #callState: CallState;
+  #callStateHistory: CallStateTransition[];
+  #reconnecting = false;
+  #setupTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Correlation identifiers supplied to `makeCall()`. */
+  metadata: CallMetadata = {};
+  /** Caller ID used for an outgoing call. */
+  virtualNumber?: string;
+
+  constructor(
+    session: Invitation | Inviter,
+    type: typeof SessionType,
+    userAgent: UserAgent,
+    softphoneEvents: TypedEventEmitter<SoftphoneEvents>
+  ) {
+    logger.debug('Session constructor called.');
+    this.#id = session.id;
+    this.#sipSession = session;
+    this.#sessionType = type;
+    this.#userAgent = userAgent;
+    this.#softphoneEvents = softphoneEvents;
+    this.#state = session.state;
+    if (session instanceof Invitation) this.#ringingAt = this.#createdAt;
+    this.#callState = session instanceof Invitation ? 'ringing' : 'dialing';
+    this.#callStateHistory = [
+      { from: null, to: this.#callState, at: this.#createdAt },
+    ];
+
+    const qualityOptions = userAgent.qualityMonitorOptions;
+    if (qualityOptions.enabled !== false) {
+      this.#qualityMonitor = new CallQualityMonitor(
+        () =>
+          (
+            this.#sipSession.sessionDescriptionHandler as
+              Web.SessionDescriptionHandler | undefined
+          )?.peerConnection,
+        (snapshot, previousLevel) => {
+          this.#events.emit('qualityChange', snapshot, previousLevel);
+          this.#softphoneEvents.emit(
+            'callQualityChange',
+            this,
+            snapshot,
+            previousLevel
+          );
+        },
+        qualityOptions
+      );
+    }
+
+    session.delegate = {
+      ...session.delegate,
+      onInvite: (request, _response, statusCode) => {
+        if (statusCode !== 200) return;
+        this.#handleRemoteReInvite(request.body);
+        this.#applyMediaState();
+      },
+      onBye: (bye) => {
+        this.#setEndReason({
+          type: 'remote-hangup',
+          reason: parseReasonHeader(bye.request),
         });
+        // sip.js goes straight to Terminated on a received BYE, so enter `ending` here.
+        this.#transition('ending');
+        bye.accept().catch((e) => logger.warn('Failed to accept BYE.', e));
+      },
+      onCancel: (cancel) => {
+        this.#setEndReason(getEndReasonFromCancel(cancel.request));
+      },
+    };
+
+    session.stateChange.addListener((newState) => {
+      logger.debug(`Session state changed from ${this.#state} to ${newState}`);
+      this.#state = newState;
+      this.#events.emit('stateChange', newState);
+      switch (newState) {
+        case SessionState.Establishing:
+          if (this.#sipSession instanceof Inviter) this.#ringingAt = Date.now();
+          this.#softphoneEvents.emit('callRinging', this);
+          break;
+        case SessionState.Established:
+          this.#answeredAt = Date.now();
+          this.#clearSetupTimer();
+          this.#applyMediaState();
+          this.#qualityMonitor?.start();
+          this.#syncEstablishedState();
+          this.#softphoneEvents.emit('callAnswered', this);
+          break;
+        case SessionState.Terminating:
+          this.#transition('ending');
+          break;
+        case SessionState.Terminated:
+          this.#endedAt = Date.now();
+          this.#clearSetupTimer();
+          this.#qualityMonitor?.stop();
+          this.#userAgent.clearSession(this);
+          // sip.js passes a rejecting final response to the INVITE request delegate
+          // only after this transition, so the reason is settled on the next tick.
+          Promise.resolve().then(() => {
+            this.#setEndReason(this.#inferEndReason());
+            this.#transition('ended', this.#endedAt);
+            this.#softphoneEvents.emit('callHangup', this, this.#endReason!);
+          });
+          break;
+      }
+    });
+  }
+
+  /** Stable identifier (SIP Call-ID + From tag) used as the key in the session registry. */
+  get id(): string {
+    return this.#id;
+  }
+  get userAgent(): UserAgent {
+    return this.#userAgent;
+  }
+  get state(): SessionState {
+    return this.#state;
+  }
+  get sipSession(): SipSession {
+    return this.#sipSession;
+  }
+  get sessionType(): typeof SessionType {
+    return this.#sessionType;
+  }
+  get direction(): CallDirection {
+    return this.#sipSession instanceof Invitation ? 'Incoming' : 'Outgoing';
+  }
+  get createdAt(): number {
+    return this.#createdAt;
+  }
+  get answeredAt(): number | undefined {
+    return this.#answeredAt;
+  }
+  get endedAt(): number | undefined {
+    return this.#endedAt;
+  }
+  /** High-level lifecycle state; changes are reported through `callStateChange`. */
+  get callState(): CallState {
+    return this.#callState;
+  }
+  /** Every call state the call has been in, with the time it was entered, oldest first. */
+  get callStateHistory(): CallStateTransition[] {
+    return [...this.#callStateHistory];
+  }
+  /** Talk time in whole seconds, up to now or the end of the call. 0 if never answered. */
+  get duration(): number {
+    if (this.#answeredAt === undefined) return 0;
+    return Math.round(
+      ((this.#endedAt ?? Date.now()) - this.#answeredAt) / 1000
+    );
+  }
+  /** Why the call ended; set by the time `callHangup` fires. */
+  get endReason(): CallEndReason | undefined {
+    return this.#endReason;
+  }
+  get remoteContact(): string | undefined {
+    return this.#remoteContact;
+  }
+  set remoteContact(contact: string | undefined) {
+    this.#remoteContact = contact;
+  }
+  /** True while we have put the remote party on hold. */
+  get isOnHold(): boolean {
+    return this.#isOnHold;
+  }
+  /** True while the remote party has put us on hold. */
+  get isRemoteOnHold(): boolean {
+    return this.#isRemoteOnHold;
+  }
+  /** True while the local microphone is muted. */
+  get isMuted(): boolean {
+    return this.#isMuted;
+  }
+
+  /**
+   * Subscribes to events of this call only. Returns a function that removes the subscription.
+   */
+  public on<E extends keyof SessionEvents>(
+    event: E,
+    handler: SessionEvents[E]
+  ): () => void {
+    return this.#events.on(event, handler);
+  }
+
+  public once<E extends keyof SessionEvents>(
+    event: E,
+    handler: SessionEvents[E]
+  ): () => void {
+    return this.#events.once(event, handler);
+  }
+
+  public off<E extends keyof SessionEvents>(
+    event: E,
+    handler: SessionEvents[E]
+  ): void {
+    this.#events.off(event, handler);
+  }
+
+  /**
+   * Latest call quality sample, or null before the first interval has elapsed
+   * (or when monitoring is disabled).
+   */
+  public getQualitySnapshot(): CallQualitySnapshot | null {
+    return this.#qualityMonitor?.snapshot ?? null;
+  }
+
+  /**
+   * Aggregated quality over the call so far; final once the session is terminated.
+   */
+  public getQualitySummary(): CallQualitySummary | null {
+    return this.#qualityMonitor?.getSummary() ?? null;
+  }
+
+  /**
+   * Snapshot of this call for the call history log.
+   */
+  public toCallRecord(): CallRecord {
+    const endedAt = this.#endedAt ?? Date.now();
+    const direction = this.direction;
+    let outcome: CallRecord['outcome'] = 'completed';
+    if (this.#answeredAt === undefined) {
+      if (direction === 'Incoming')
+        outcome = this.#endReason?.type === 'rejected' ? 'rejected' : 'missed';
+      else
+        outcome =
+          this.#endReason?.type === 'cancelled' ? 'cancelled' : 'failed';
+    }
+    return {
+      id: this.#id,
+      direction,
+      remoteContact: this.#remoteContact,
+      virtualNumber: this.virtualNumber,
+      metadata: { ...this.metadata },
+      createdAt: this.#createdAt,
+      ringingAt: this.#ringingAt,
+      answeredAt: this.#answeredAt,
+      endedAt,
+      duration: this.duration,
+      outcome,
+      endReason: this.#endReason,
+    };
+  }
+
+  /**
+   * Sends the initial INVITE of an outgoing call. Called by `Softphone.makeCall()`.
+   * Provisional responses are reported through `callProgress`; the call is cancelled
+   * if it is not answered within the user agent's `callSetupTimeoutMs`.
+   */
+  public async dial(): Promise<void> {
+    if (!(this.#sipSession instanceof Inviter)) {
+      throw new InvalidCallStateException(
+        'Session.dial',
+        this.#state,
+        'Only outgoing calls can be dialled.'
+      );
+    }
+    const onFinalResponse = (response: Core.IncomingResponse) => {
+      this.#setEndReason(getEndReasonFromResponse(response.message));
+    };
+    const onProgress = (response: Core.IncomingResponse) => {
+      this.#handleProgress(response.message);
+    };
+    this.#startSetupTimer();
+    try {
+      await this.#sipSession.invite({
+        requestDelegate: {
+          onTrying: onProgress,
+          onProgress,
+          onReject: onFinalResponse,
+          onRedirect: onFinalResponse,
+        },
+      });
+    } catch (error) {
+      this.#clearSetupTimer();
+      if (MediaException.isMediaError(error))
+        throw new MediaException('Session.dial', error);
+      throw error;
+    }
+  }
+
+  #handleProgress(message: Core.IncomingResponseMessage): void {
+    const { statusCode = 0, reasonPhrase } = message;
+    const hasEarlyMedia =
+      statusCode > 100 &&
+      !!message.body &&
+      /application\/sdp/i.test(message.getHeader('Content-Type') ?? '');
+    const progress: CallProgress = { statusCode, reasonPhrase, hasEarlyMedia };
+    logger.info(`Call progress: ${statusCode} ${reasonPhrase ?? ''}`.trim());
+
+    if (hasEarlyMedia && this.#userAgent.earlyMedia) {
+      // sip.js has applied the answer by now; keep an early mute in effect.
+      this.#applyMediaState();
+      this.#transition('early-media');
+    } else if (statusCode === 180) {
+      this.#transition('ringing');
     }
+    this.#events.emit('progress', progress);
+    this.#softphoneEvents.emit('callProgress', this, progress);
+  }
+
+  #startSetupTimer(): void {
+    const timeoutMs = this.#userAgent.callSetupTimeoutMs;
+    if (!timeoutMs) return;
+    this.#setupTimer = setTimeout(() => {
+      this.#setupTimer = null;
+      if (
+        this.#state !== SessionState.Initial &&
+        this.#state !== SessionState.Establishing
+      )
+        return;
+      logger.warn(`Call not answered within ${timeoutMs}ms. Cancelling.`);
+      this.#setEndReason({ type: 'setup-timeout', timeoutMs });
+      this.#transition('ending');
+      (this.#sipSession as Inviter)
+        .cancel()
+        .catch((e) => logger.warn('Failed to cancel unanswered call.', e));
+    }, timeoutMs);
+  }
 
-    get userAgent(): UserAgent { return this.#userAgent; }
-    get state(): SessionState { return this.#state; }
-    get sipSession(): SipSession { return this.#sipSession; }
-    get sessionType(): typeof SessionType { return this.#sessionType; }
-    get remoteContact(): string | undefined { return this.#remoteContact; }
-    set remoteContact(contact: string | undefined) { this.#remoteContact = contact; }
-
-    public async answer(): Promise<void> {
-        console.log('Session.answer() called');
-        if (this.#sipSession instanceof Invitation) {
-            const options = {
-                sessionDescriptionHandlerOptions: {
-                    constraints: { audio: true, video: false },
-                },
-            };
-            // @ts-ignore
-            await this.#sipSession.accept(options);
-        } else {
-            console.warn('Cannot answer an outgoing call or established session.');
+  #clearSetupTimer(): void {
+    if (this.#setupTimer) clearTimeout(this.#setupTimer);
+    this.#setupTimer = null;
+  }
+
+  public async answer({
+    holdOtherCalls = true,
+  }: AnswerOptions = {}): Promise<void> {
+    logger.debug('Session.answer() called');
+    if (this.#sipSession instanceof Invitation) {
+      if (holdOtherCalls) await this.#userAgent.holdOtherSessions(this);
+      const options = {
+        sessionDescriptionHandlerOptions: {
+          constraints: { audio: true, video: false },
+        },
+      };
+      try {
+        // @ts-ignore
+        await this.#sipSession.accept(options);
+      } catch (error) {
+        if (MediaException.isMediaError(error))
+          throw new MediaException('Session.answer', error);
+        throw error;
+      }
+    } else {
+      logger.warn('Cannot answer an outgoing call or established session.');
+    }
+  }
+
+  public async hangup(): Promise<void> {
+    logger.debug('Session.hangup() called');
+    switch (this.#state) {
+      case SessionState.Initial:
+      case SessionState.Establishing:
+        if (this.#sipSession instanceof Inviter) {
+          this.#setEndReason({ type: 'cancelled' });
+          this.#transition('ending');
+          await this.#sipSession.cancel();
+        } else if (this.#sipSession instanceof Invitation) {
+          await this.reject();
         }
+        break;
+      case SessionState.Established:
+        this.#setEndReason({ type: 'local-hangup' });
+        this.#transition('ending');
+        await this.#sipSession.bye();
+        break;
+      default:
+        throw new InvalidCallStateException(
+          'Session.hangup',
+          this.#state,
+          'The call has already ended.'
+        );
+    }
+  }
+
+  /**
+   * Declines an incoming call that has not been answered yet.
+   */
+  public async reject({
+    statusCode = 480,
+    reason,
+  }: RejectOptions = {}): Promise<void> {
+    logger.debug('Session.reject() called');
+    if (!(this.#sipSession instanceof Invitation)) {
+      throw new InvalidCallStateException(
+        'Session.reject',
+        this.#state,
+        'Only incoming calls can be rejected.'
+      );
+    }
+    if (
+      this.#state !== SessionState.Initial &&
+      this.#state !== SessionState.Establishing
+    ) {
+      throw new InvalidCallStateException(
+        'Session.reject',
+        this.#state,
+        'The call has already been answered or ended.'
+      );
+    }
+    if (!REJECT_STATUS_CODES.includes(statusCode)) {
+      throw new InvalidValueException(
+        'Session.reject',
+        'statusCode',
+        statusCode,
+        REJECT_STATUS_CODES
+      );
+    }
+    this.#setEndReason({ type: 'rejected', statusCode, reasonPhrase: reason });
+    this.#transition('ending');
+    await this.#sipSession.reject({ statusCode, reasonPhrase: reason });
+  }
+
+  /**
+   * Sends `180 Ringing` for an incoming call. The user agent does this once the call passes the
+   * auto-reject rules, so later calls are no-ops.
+   */
+  public async ringing(): Promise<void> {
+    logger.debug('Session.ringing() called');
+    if (
+      !(this.#sipSession instanceof Invitation) ||
+      this.#state !== SessionState.Initial
+    ) {
+      throw new InvalidCallStateException(
+        'Session.ringing',
+        this.#state,
+        'Only unanswered incoming calls can ring.'
+      );
+    }
+    if (this.#ringingSent) return;
+    this.#ringingSent = true;
+    try {
+      await this.#sipSession.progress({ statusCode: 180 });
+    } catch (e) {
+      this.#ringingSent = false;
+      throw e;
+    }
+  }
+
+  /**
+   * Puts the remote party on hold by renegotiating the audio direction
+   * (sendonly, or inactive if they have also held us) via re-INVITE.
+   */
+  public async hold(): Promise<void> {
+    logger.debug('Session.hold() called');
+    await this.#setHold(true, 'Session.hold');
+  }
+
+  /**
+   * Resumes a call previously put on hold with `hold()`.
+   */
+  public async unhold(): Promise<void> {
+    logger.debug('Session.unhold() called');
+    await this.#setHold(false, 'Session.unhold');
+  }
+
+  /**
+   * Stops sending microphone audio without renegotiating the call.
+   * The mute survives hold/unhold and any other re-INVITE until `unmute()` is called.
+   */
+  public mute(): void {
+    logger.debug('Session.mute() called');
+    this.#setMuted(true, 'Session.mute');
+  }
+
+  public unmute(): void {
+    logger.debug('Session.unmute() called');
+    this.#setMuted(false, 'Session.unmute');
+  }
+
+  #setMuted(muted: boolean, source: string): void {
+    if (this.#state === SessionState.Terminated) {
+      throw new InvalidCallStateException(
+        source,
+        this.#state,
+        'Cannot change mute state of a terminated session.'
+      );
+    }
+    if (this.#isMuted === muted) return;
+
+    this.#isMuted = muted;
+    this.#applyMediaState();
+    this.#events.emit('mute', muted);
+    this.#softphoneEvents.emit('muteChange', this, muted);
+  }
+
+  /**
+   * Queues DTMF tones for IVR navigation. Tones from successive calls are played in order.
+   * RFC 4733 falls back to SIP INFO when the edge did not negotiate telephone-event.
+   * Resolves once every tone in `digits` has been sent.
+   */
+  public async sendDtmf(
+    digits: string,
+    options: DtmfOptions = {}
+  ): Promise<void> {
+    logger.debug('Session.sendDtmf() called');
+    const tones = digits?.toUpperCase();
+    if (!tones || !DTMF_TONES.test(tones)) {
+      throw new InvalidValueException('Session.sendDtmf', 'digits', digits, [
+        '0-9',
+        '*',
+        '#',
+        'A-D',
+      ]);
+    }
+    const {
+      method = 'rfc4733',
+      duration = DTMF_DEFAULT_DURATION,
+      interToneGap = DTMF_DEFAULT_INTER_TONE_GAP,
+    } = options;
+    if (method !== 'rfc4733' && method !== 'info') {
+      throw new InvalidValueException('Session.sendDtmf', 'method', method, [
+        'rfc4733',
+        'info',
+      ]);
+    }
+    if (this.#state !== SessionState.Established) {
+      throw new InvalidCallStateException(
+        'Session.sendDtmf',
+        this.#state,
+        'DTMF requires an established call.'
+      );
     }
 
-    public async hangup(): Promise<void> {
-        console.log('Session.hangup() called');
-        switch (this.#state) {
-            case SessionState.Initial:
-            case SessionState.Establishing:
-                if (this.#sipSession instanceof Inviter) {
-                    await this.#sipSession.cancel();
-                } else if (this.#sipSession instanceof Invitation) {
-                    await this.#sipSession.reject();
-                }
-                break;
-            case SessionState.Established:
-                await this.#sipSession.bye();
-                break;
+    const sending = this.#dtmfQueue.then(async () => {
+      for (const tone of tones) {
+        if (this.#state !== SessionState.Established) {
+          throw new InvalidCallStateException(
+            'Session.sendDtmf',
+            this.#state,
+            'Session ended before all tones were sent.'
+          );
         }
+        const sentWith = await this.#sendTone(
+          tone,
+          method,
+          duration,
+          interToneGap
+        );
+        this.#events.emit('dtmf', tone, sentWith);
+        this.#softphoneEvents.emit('dtmfSent', this, tone, sentWith);
+        await new Promise((resolve) =>
+          setTimeout(resolve, duration + interToneGap)
+        );
+      }
+    });
+    // A failed batch must not block the tones queued behind it.
+    this.#dtmfQueue = sending.catch(() => undefined);
+    return sending;
+  }
+
+  async #sendTone(
+    tone: string,
+    method: DtmfMethod,
+    duration: number,
+    interToneGap: number
+  ): Promise<DtmfMethod> {
+    if (method === 'rfc4733') {
+      const sdh = this.#sipSession.sessionDescriptionHandler as
+        Web.SessionDescriptionHandler | undefined;
+      if (sdh && sdh.sendDtmf(tone, { duration, interToneGap }))
+        return 'rfc4733';
+      logger.warn('telephone-event not negotiated. Falling back to SIP INFO.');
+    }
+
+    // info() resolves once the request is sent; the tone only counts as sent on a 2xx.
+    await new Promise<void>((resolve, reject) => {
+      this.#sipSession
+        .info({
+          requestDelegate: {
+            onAccept: () => resolve(),
+            onReject: (response) => {
+              const { statusCode, reasonPhrase } = response.message;
+              reject(
+                new SipRequestException(
+                  'Session.sendDtmf',
+                  'INFO',
+                  statusCode,
+                  reasonPhrase
+                )
+              );
+            },
+          },
+          requestOptions: {
+            body: {
+              contentDisposition: 'render',
+              contentType: 'application/dtmf-relay',
+              content: `Signal=${tone}\r\nDuration=${duration}`,
+            },
+          },
+        })
+        .catch((error) => {
+          reject(
+            new SipRequestException(
+              'Session.sendDtmf',
+              'INFO',
+              undefined,
+              undefined,
+              { cause: error }
+            )
+          );
+        });
+    });
+    return 'info';
+  }
+
+  /**
+   * Blind transfer. `target` is an E.164 number or a SIP user on this edge domain
+   * (`alice` or `sip:alice@<edge>`). Resolves once the REFER is accepted; progress
+   * is reported through `onTransferProgress` and the call is released on success.
+   */
+  public async transfer(target: string): Promise<void> {
+    logger.debug('Session.transfer() called');
+    this.#ensureCanTransfer('Session.transfer');
+    await this.#refer(this.#makeTransferTarget(target), 'Session.transfer');
+  }
+
+  /**
+   * Attended transfer: connects the remote party of this call to the remote party of
+   * `otherSession` using REFER with Replaces. Both calls must be established.
+   */
+  public async attendedTransfer(otherSession: Session): Promise<void> {
+    logger.debug('Session.attendedTransfer() called');
+    this.#ensureCanTransfer('Session.attendedTransfer');
+    if (!otherSession || otherSession === this) {
+      throw new InvalidValueException(
+        'Session.attendedTransfer',
+        'otherSession',
+        otherSession?.remoteContact
+      );
+    }
+    if (otherSession.state !== SessionState.Established) {
+      throw new InvalidCallStateException(
+        'Session.attendedTransfer',
+        otherSession.state,
+        'The target session must be established.'
+      );
+    }
+    await this.#refer(otherSession.sipSession, 'Session.attendedTransfer');
+  }
+
+  #ensureCanTransfer(source: string): void {
+    if (this.#state !== SessionState.Established) {
+      throw new InvalidCallStateException(
+        source,
+        this.#state,
+        'Transfer requires an established call.'
+      );
+    }
+  }
+
+  #makeTransferTarget(target: string): URI {
+    const server = this.#userAgent.server;
+    const value = target?.trim();
+    if (!value)
+      throw new InvalidValueException('Session.transfer', 'target', target);
+
+    if (value.startsWith('+')) {
+      if (!validatePhoneNumber(value)) {
+        throw new InvalidValueException('Session.transfer', 'target', target, [
+          'E.164 format (e.g., +[Country Code][Number])',
+        ]);
+      }
+      const uri = SIPUserAgent.makeURI(`sip:+${toDigits(value)}@${server}`);
+      if (!uri) {
+        throw new InvalidValueException('Session.transfer', 'target', target, [
+          'E.164 format (e.g., +[Country Code][Number])',
+        ]);
+      }
+      return uri;
+    }
+
+    const uri = SIPUserAgent.makeURI(
+      value.startsWith('sip:') ? value : `sip:${value}@${server}`
+    );
+    if (!uri || !uri.user || uri.host !== server) {
+      throw new InvalidValueException('Session.transfer', 'target', target, [
+        'E.164 number',
+        `SIP user on ${server}`,
+      ]);
+    }
+    return uri;
+  }
+
+  async #refer(referTo: URI | SipSession, source: string): Promise<void> {
+    let completed = false;
+    const complete = (success: boolean) => {
+      if (completed) return;
+      completed = true;
+      this.#events.emit('transferCompleted', success);
+      this.#softphoneEvents.emit('transferCompleted', this, success);
+      // The transferee now talks to the target; release our leg.
+      if (success && this.#state === SessionState.Established) {
+        this.#setEndReason({ type: 'transferred' });
+        this.#sipSession
+          .bye()
+          .catch((e) => logger.warn('BYE after transfer failed.', e));
+      }
+    };
+
+    const onNotify = (notification: Notification) => {
+      notification
+        .accept()
+        .catch((e) => logger.warn('Failed to accept transfer NOTIFY.', e));
+      const progress = Session.#parseSipFrag(notification.request.body);
+      if (!progress) return;
+      this.#emitTransferProgress(progress);
+      if (progress.status === 'success') complete(true);
+      if (progress.status === 'failed') complete(false);
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      this.#sipSession
+        .refer(referTo, {
+          onNotify,
+          requestDelegate: {
+            onAccept: () => resolve(),
+            onReject: (response) => {
+              const { statusCode, reasonPhrase } = response.message;
+              this.#emitTransferProgress({
+                status: 'failed',
+                statusCode,
+                reasonPhrase,
+              });
+              complete(false);
+              reject(
+                new SipRequestException(
+                  source,
+                  'REFER',
+                  statusCode,
+                  reasonPhrase
+                )
+              );
+            },
+          },
+        })
+        .catch((error) => {
+          reject(
+            new SipRequestException(source, 'REFER', undefined, undefined, {
+              cause: error,
+            })
+          );
+        });
+    });
+  }
+
+  /**
+   * Called by the user agent before it stops. sip.js then cancels or ends the call itself,
+   * so record it as ours rather than leaving it to be inferred as a failure.
+   */
+  public markLocalHangup(): void {
+    const answered =
+      this.#state !== SessionState.Initial &&
+      this.#state !== SessionState.Establishing;
+    this.#setEndReason(
+      !answered && this.#sipSession instanceof Inviter
+        ? { type: 'cancelled' }
+        : { type: 'local-hangup' }
+    );
+  }
+
+  /** The first recorded reason wins; later ones (e.g. the 487 after our CANCEL) are ignored. */
+  #setEndReason(reason: CallEndReason): void {
+    if (!this.#endReason) this.#endReason = reason;
+  }
+
+  /**
+   * Moves the call to `to` if the lifecycle allows it. Entering `ending` also fires `callTerminating`.
+   */
+  #transition(to: CallState, at = Date.now()): void {
+    const from = this.#callState;
+    if (from === to) return;
+    if (!CALL_STATE_TRANSITIONS[from].includes(to)) {
+      logger.warn(`Ignoring call state change from ${from} to ${to}.`);
+      return;
+    }
+    this.#callState = to;
+    this.#callStateHistory.push({ from, to, at });
+    this.#events.emit('callStateChange', from, to);
+    this.#softphoneEvents.emit('callStateChange', this, from, to);
+    if (to === 'ending') this.#softphoneEvents.emit('callTerminating', this);
+  }
+
+  /** Settles an established call on `connected` or `on-hold` unless it is reconnecting. */
+  #syncEstablishedState(): void {
+    if (this.#state !== SessionState.Established || this.#reconnecting) return;
+    this.#transition(
+      this.#isOnHold || this.#isRemoteOnHold ? 'on-hold' : 'connected'
+    );
+  }
+
+  /**
+   * Called by the user agent while the signalling transport is down, and around ICE restarts.
+   */
+  public setReconnecting(reconnecting: boolean): void {
+    if (this.#state !== SessionState.Established) return;
+    this.#reconnecting = reconnecting;
+    if (reconnecting) this.#transition('reconnecting');
+    else this.#syncEstablishedState();
+  }
+
+  #inferEndReason(): CallEndReason {
+    if (!this.#userAgent.transport.isConnected())
+      return { type: 'network-error' };
+    return { type: 'failed' };
+  }
+
+  static #parseSipFrag(body: string | undefined): TransferProgress | null {
+    const match = body ? SIP_FRAG_STATUS_LINE.exec(body) : null;
+    if (!match) return null;
+
+    const statusCode = Number(match[1]);
+    const reasonPhrase = match[2]?.trim();
+    if (statusCode >= 300)
+      return { status: 'failed', statusCode, reasonPhrase };
+    if (statusCode >= 200)
+      return { status: 'success', statusCode, reasonPhrase };
+    if (statusCode === 180 || statusCode === 183)
+      return { status: 'ringing', statusCode, reasonPhrase };
+    return { status: 'trying', statusCode, reasonPhrase };
+  }
+
+  #emitTransferProgress(progress: TransferProgress): void {
+    logger.info(`Transfer ${progress.status} (${progress.statusCode ?? '-'})`);
+    this.#events.emit('transferProgress', progress);
+    this.#softphoneEvents.emit('transferProgress', this, progress);
+  }
+
+  /**
+   * Restarts ICE via re-INVITE so media follows the device onto a new network.
+   * Hold and mute state are preserved.
+   */
+  public async recoverMedia(): Promise<void> {
+    logger.debug('Session.recoverMedia() called');
+    if (this.#state !== SessionState.Established) {
+      throw new InvalidCallStateException(
+        'Session.recoverMedia',
+        this.#state,
+        'Media recovery requires an established call.'
+      );
+    }
+    if (this.#holdPending) {
+      throw new InvalidCallStateException(
+        'Session.recoverMedia',
+        this.#state,
+        'A hold or unhold request is already in progress.'
+      );
+    }
+
+    const previousOptions = this.#sipSession
+      .sessionDescriptionHandlerOptionsReInvite as Web.SessionDescriptionHandlerOptions;
+    // invite() persists the options it is given, so restore them once this offer is settled.
+    const restore = () => {
+      this.#sipSession.sessionDescriptionHandlerOptionsReInvite =
+        previousOptions;
+      this.setReconnecting(false);
+    };
+
+    this.setReconnecting(true);
+    await new Promise<void>((resolve, reject) => {
+      this.#sipSession
+        .invite({
+          sessionDescriptionHandlerOptions: {
+            ...previousOptions,
+            offerOptions: { ...previousOptions.offerOptions, iceRestart: true },
+          } as Web.SessionDescriptionHandlerOptions,
+          requestDelegate: {
+            onAccept: () => {
+              restore();
+              this.#applyMediaState();
+              logger.info('Media recovered after network change.');
+              resolve();
+            },
+            onReject: (response) => {
+              restore();
+              const { statusCode, reasonPhrase } = response.message;
+              reject(
+                new SipRequestException(
+                  'Session.recoverMedia',
+                  'INVITE',
+                  statusCode,
+                  reasonPhrase
+                )
+              );
+            },
+          },
+        })
+        .catch((error) => {
+          restore();
+          reject(
+            new SipRequestException(
+              'Session.recoverMedia',
+              'INVITE',
+              undefined,
+              undefined,
+              { cause: error }
+            )
+          );
+        });
+    });
+  }
+
+  async #setHold(hold: boolean, source: string): Promise<void> {
+    if (this.#state !== SessionState.Established) {
+      throw new InvalidCallStateException(
+        source,
+        this.#state,
+        'Hold requires an established call.'
+      );
+    }
+    if (this.#holdPending) {
+      throw new InvalidCallStateException(
+        source,
+        this.#state,
+        'A hold or unhold request is already in progress.'
+      );
+    }
+    if (this.#isOnHold === hold) return;
+
+    const previousOptions = this.#sipSession
+      .sessionDescriptionHandlerOptionsReInvite as Web.SessionDescriptionHandlerOptions;
+    const revert = () => {
+      this.#sipSession.sessionDescriptionHandlerOptionsReInvite =
+        previousOptions;
+      this.#holdPending = false;
+    };
+
+    this.#sipSession.sessionDescriptionHandlerOptionsReInvite = {
+      ...previousOptions,
+      hold,
+    } as Web.SessionDescriptionHandlerOptions;
+    this.#holdPending = true;
+
+    await new Promise<void>((resolve, reject) => {
+      this.#sipSession
+        .invite({
+          requestDelegate: {
+            onAccept: () => {
+              this.#holdPending = false;
+              this.#isOnHold = hold;
+              this.#applyMediaState();
+              this.#emitHoldChange(hold, 'local');
+              resolve();
+            },
+            onReject: (response) => {
+              revert();
+              const { statusCode, reasonPhrase } = response.message;
+              reject(
+                new SipRequestException(
+                  source,
+                  'INVITE',
+                  statusCode,
+                  reasonPhrase
+                )
+              );
+            },
+          },
+        })
+        .catch((error) => {
+          revert();
+          reject(
+            new SipRequestException(source, 'INVITE', undefined, undefined, {
+              cause: error,
+            })
+          );
+        });
+    });
+  }
+
+  #handleRemoteReInvite(sdp: string | undefined): void {
+    if (!sdp) return;
+    const remoteOnHold = isRemoteHoldDirection(getAudioDirection(sdp));
+    if (remoteOnHold === this.#isRemoteOnHold) return;
+
+    logger.info(`Remote party ${remoteOnHold ? 'held' : 'resumed'} the call.`);
+    this.#isRemoteOnHold = remoteOnHold;
+    this.#emitHoldChange(remoteOnHold, 'remote');
+  }
+
+  /**
+   * Keeps local tracks in line with the hold and mute state; sip.js only rewrites the SDP
+   * direction, and renegotiation may hand us fresh senders, so this runs after every re-INVITE.
+   */
+  #applyMediaState(): void {
+    const sdh = this.#sipSession.sessionDescriptionHandler as
+      Web.SessionDescriptionHandler | undefined;
+    if (!sdh || !sdh.peerConnection) return;
+    sdh.enableReceiverTracks(!this.#isOnHold);
+    sdh.enableSenderTracks(!this.#isOnHold && !this.#isMuted);
+  }
+
+  #emitHoldChange(held: boolean, origin: HoldOrigin): void {
+    this.#syncEstablishedState();
+    if (held) {
+      this.#events.emit('hold', origin);
+      this.#softphoneEvents.emit('callHold', this, origin);
+    } else {
+      this.#events.emit('resume', origin);
+      this.#softphoneEvents.emit('callResumed', this, origin);
     }
-}
\ No newline at end of file
+  }
+}
@@ -1,317 +1,942 @@
-import { BASE_URL } from '../constants';
 import * as Exceptions from '../exceptions';
-import type { Listeners, TokenPayload } from '../types';
-import { validatePhoneNumber } from '../utils/validation';
+import type {
+  AutoRejectedCall,
+  Availability,
+  CallHistoryQuery,
+  CodeExchanger,
+  CallRecord,
+  ConnectionChangeReason,
+  Listeners,
+  LoggingOptions,
+  NetworkState,
+  ReconnectionPolicy,
+  ResolvedSoftphoneConfig,
+  SoftphoneConfig,
+  SoftphoneEvents,
+  StartOptions,
+  TokenPayload,
+  TokenProvider,
+  TokenStore,
+} from '../types';
+import { getTokenExpiry, validatePhoneNumber } from '../utils/validation';
+import {
+  CALL_HISTORY_STORAGE_KEY,
+  MAX_TIMER_DELAY,
+  TOKEN_REFRESH_MARGIN,
+  TOKEN_REFRESH_RETRY_DELAY,
+} from '../constants';
 import Auth from './Auth';
-import type { VirtualNumber } from './Auth';
+import type { AuthContext, AuthCredentials, VirtualNumber } from './Auth';
 import UserAgent from './UserAgent';
-import { TokenManager } from "../services/TokenManager";
+import type { Session } from './Session';
+import { EncryptedTokenStore } from '../services/TokenStore';
+import { NetInfoNetworkMonitor } from '../services/NetworkMonitor';
+import { CallHistoryStore } from '../services/CallHistoryStore';
+import { ApiClient, type FetchFunction } from '../services/ApiClient';
+import { SessionState } from 'sip.js';
 import { AppState, type AppStateStatus } from 'react-native';
+import { configureLogging, createLogger } from '../utils/logger';
+import { TypedEventEmitter } from '../utils/EventEmitter';
+import { bindListeners } from '../utils/listeners';
+import { resolveSoftphoneConfig } from '../utils/config';
+
+const logger = createLogger('Softphone');
+
+const AVAILABILITY_MODES: Availability[] = ['available', 'dnd', 'away'];
+
+/** What `initialize` was last called with; each instance is created from a snapshot of it. */
+interface SoftphoneContext {
+  credentials: AuthCredentials;
+  config: ResolvedSoftphoneConfig;
+  tokenStore: TokenStore;
+  fetch?: FetchFunction;
+}
 
 export interface DirectLoginCredentials {
-    accessToken: string;
-    email: string;
-    refreshToken: string; 
+  accessToken: string;
+  email: string;
+  refreshToken: string;
 }
 
+/**
+ * The static configuration set by `initialize` applies to instances created afterwards. Each
+ * instance keeps the configuration it was created with, so several accounts (or client apps)
+ * can be signed in side by side.
+ */
 class Softphone {
-    static #clientId: string | null = null;
-    static #clientSecret: string | null = null;
-    static #isInitialized = false;
-    #primaryVN: any;
-    #server: any;
-    #clientListeners: any;
-    #appStateSubscription: any;
-
-    #auth: Auth;
-    #userAgent: UserAgent | null = null;
-
-    private constructor(auth: Auth) { this.#auth = auth; }
-
-    public static async initialize({ clientId, clientSecret }: { clientId: string, clientSecret: string }): Promise<Softphone | null> {
-        if (!clientId || !clientSecret) throw new Exceptions.MissingParameterException('initialize', ['clientId', 'clientSecret']);
-        this.#clientId = clientId;
-        this.#clientSecret = clientSecret;
-        this.#isInitialized = true;
-
-        const auth = await Auth.initialize();
-        if (auth) {
-            const softphone = new Softphone(auth);
-            try {
-                await auth.retrieveUserRoles();
-                return softphone;
-            } catch (e) {
-                console.log('Softphone: Token might be expired on initialize. Attempting refresh...');
-                const refreshed = await auth.refreshAccessToken(clientId, clientSecret);
-                if (refreshed) return softphone;
-                await TokenManager.clear();
-                return null;
-            }
+  static #context: SoftphoneContext | null = null;
+  #primaryVN: any;
+  #server: any;
+  #clientListeners: Listeners | null = null;
+  #unbindListeners: (() => void) | null = null;
+  #events = new TypedEventEmitter<SoftphoneEvents>('Softphone');
+  #startOptions: StartOptions = {};
+  #appStateSubscription: any;
+  #networkSubscription: (() => void) | null = null;
+  #networkState: NetworkState | null = null;
+  #historySubscription: (() => void) | null = null;
+  #tokenRefreshTimer: ReturnType<typeof setTimeout> | null = null;
+  #historyKey: string;
+
+  #auth: Auth;
+  #userAgent: UserAgent | null = null;
+
+  private constructor(auth: Auth, { config, credentials }: SoftphoneContext) {
+    this.#auth = auth;
+    // Scoped like the session itself, so client apps sharing an email keep separate logs.
+    this.#historyKey = `${CALL_HISTORY_STORAGE_KEY}.${config.tokenStorageKey}.${credentials.clientId}.${auth.getEmail()}`;
+    auth.onTokensRefreshed = (tokens) => {
+      logger.info('Emitting new tokens via sessionRefresh');
+      this.#events.emit('sessionRefresh', tokens);
+      this.#scheduleTokenRefresh();
+    };
+    this.#scheduleTokenRefresh();
+  }
+
+  /**
+   * @param fetch Optional replacement for the global `fetch` used by every REST call.
+   * @param config Optional environment overrides (API and OAuth URLs, SIP transport, storage key).
+   * @param tokenStore Where the session is persisted. Defaults to encrypted storage under `config.tokenStorageKey`.
+   * @param tokenProvider Backend mode: refreshes tokens on your server instead of using `clientSecret` on-device.
+   * @param codeExchanger Backend mode: exchanges the OAuth code on your server. Needed for `handleRedirect` without `clientSecret`.
+   */
+  public static async initialize({
+    clientId,
+    clientSecret,
+    tokenProvider,
+    codeExchanger,
+    logging,
+    fetch,
+    config,
+    tokenStore,
+  }: {
+    clientId: string;
+    clientSecret?: string;
+    tokenProvider?: TokenProvider;
+    codeExchanger?: CodeExchanger;
+    logging?: LoggingOptions;
+    fetch?: FetchFunction;
+    config?: SoftphoneConfig;
+    tokenStore?: TokenStore;
+  }): Promise<Softphone | null> {
+    // Logging is process-wide, so only replace it when asked; initializing another client keeps it.
+    if (logging) configureLogging(logging);
+    if (!clientId)
+      throw new Exceptions.MissingParameterException('initialize', [
+        'clientId',
+      ]);
+    if (!clientSecret && !tokenProvider)
+      throw new Exceptions.MissingParameterException('initialize', [
+        'clientSecret',
+        'tokenProvider',
+      ]);
+    const resolvedConfig = resolveSoftphoneConfig(config);
+    const context: SoftphoneContext = {
+      credentials: { clientId, clientSecret, tokenProvider, codeExchanger },
+      config: resolvedConfig,
+      tokenStore:
+        tokenStore ?? new EncryptedTokenStore(resolvedConfig.tokenStorageKey),
+      fetch,
+    };
+    this.#context = context;
+    return this.#restore(context);
+  }
+
+  /**
+   * Emails with a stored session in the configured token store, most recently used first.
+   */
+  public static async listStoredAccounts(): Promise<string[]> {
+    const { tokenStore } = this.ensureInitialized('listStoredAccounts');
+    return tokenStore.listAccounts();
+  }
+
+  /**
+   * Restores the stored session for `email` as a new, independent instance.
+   * Resolves to `null` if there is none or it can no longer be refreshed.
+   */
+  public static async restore(email: string): Promise<Softphone | null> {
+    const context = this.ensureInitialized('restore');
+    if (!email)
+      throw new Exceptions.MissingParameterException('restore', ['email']);
+    return this.#restore(context, email);
+  }
+
+  static async #restore(
+    context: SoftphoneContext,
+    email?: string
+  ): Promise<Softphone | null> {
+    const auth = await Auth.initialize(this.#createAuthContext(context), email);
+    if (auth) {
+      const softphone = new Softphone(auth, context);
+      try {
+        await auth.retrieveUserRoles();
+        return softphone;
+      } catch (e) {
+        logger.info(
+          'Token might be expired on initialize. Attempting refresh...',
+          e
+        );
+        try {
+          if (await auth.refreshAccessToken()) return softphone;
+        } catch (error) {
+          // The refreshed tokens could not be persisted; treat it like any other failed restore.
+          logger.warn('Failed to save refreshed tokens on initialize.', error);
+        }
+        softphone.#cancelTokenRefresh();
+        try {
+          await auth.logout();
+        } catch (error) {
+          logger.error('Failed to clear tokens.', error);
         }
         return null;
+      }
     }
-
-    public static async login(credentials?: DirectLoginCredentials): Promise<Softphone | void> {
-        this.ensureInitialized('login');
-
-        // CASE A: Direct Login (Parameters provided)
-        if (credentials) {
-            console.log('Softphone: Performing direct login with provided credentials.');
-            const auth = new Auth();
-
-            // This will throw an error if the provided token is invalid
-            await auth.manualLogin(
-                credentials.accessToken,
-                credentials.email,
-                credentials.refreshToken // Now required
-            );
-
-            console.log('Softphone: Direct login successful. Returning instance.');
-            return new Softphone(auth);
-        }
-
-        // CASE B: Standard OAuth Flow (No parameters)
-        else {
-            console.log('Softphone: Performing standard OAuth login.');
-            const tempAuth = new Auth();
-            await tempAuth.login({ clientId: this.#clientId! });
-        }
+    return null;
+  }
+
+  public static async login(
+    credentials?: DirectLoginCredentials
+  ): Promise<Softphone | void> {
+    const context = this.ensureInitialized('login');
+
+    // CASE A: Direct Login (Parameters provided)
+    if (credentials) {
+      logger.info('Performing direct login with provided credentials.');
+      const auth = this.#createAuth(context);
+
+      // This will throw an error if the provided token is invalid
+      await auth.manualLogin(
+        credentials.accessToken,
+        credentials.email,
+        credentials.refreshToken // Now required
+      );
+
+      logger.info('Direct login successful. Returning instance.');
+      return new Softphone(auth, context);
     }
 
-    public static async handleRedirect(url: string): Promise<Softphone> {
-        this.ensureInitialized('handleRedirect');
-        const auth = new Auth();
-        await auth.handleRedirect(url, { clientId: this.#clientId!, clientSecret: this.#clientSecret! });
-        if (auth.isLoggedIn()) return new Softphone(auth);
-        throw new Exceptions.UnauthorizedException('handleRedirect', 'Authentication failed.');
+    // CASE B: Standard OAuth Flow (No parameters)
+    else {
+      logger.info('Performing standard OAuth login.');
+      const tempAuth = this.#createAuth(context);
+      await tempAuth.login();
     }
-
-private async executeWithRetry<T>(action: () => Promise<T>): Promise<T> {
-        try {
-            return await action();
-        } catch (error) {
-            if (error instanceof Exceptions.InvalidTokenException) {
-                console.log('Softphone: ⚠️ Caught 401. Initiating Auto-Refresh...');
-                
-                if (!Softphone.#clientId || !Softphone.#clientSecret) {
-                    throw new Exceptions.UnauthorizedException('executeWithRetry', 'Missing Credentials');
-                }
-
-                // Attempt Refresh
-                const success = await this.#auth.refreshAccessToken(Softphone.#clientId, Softphone.#clientSecret);
-                
-                if (success) {
-                    // If listeners are registered and refresh succeeded, notify the app
-                    if (this.#clientListeners && this.#clientListeners.onSessionRefresh) {
-                        const tokens = this.getTokens();
-                        if (tokens) {
-                            console.log('Softphone: Emitting new tokens via onSessionRefresh');
-                            this.#clientListeners.onSessionRefresh(tokens);
-                        }
-                    }
-
-                    return await action();
-                }
-                
-                await this.logout();
-                throw new Exceptions.UnauthorizedException('executeWithRetry', 'Session expired.');
-            }
-            throw error;
+  }
+
+  public static async handleRedirect(url: string): Promise<Softphone> {
+    const context = this.ensureInitialized('handleRedirect');
+    const auth = this.#createAuth(context);
+    await auth.handleRedirect(url);
+    if (auth.isLoggedIn()) return new Softphone(auth, context);
+    throw new Exceptions.UnauthorizedException(
+      'handleRedirect',
+      'Authentication failed.'
+    );
+  }
+
+  private async executeWithRetry<T>(action: () => Promise<T>): Promise<T> {
+    const tokenUsed = this.#auth.getAccessToken();
+    try {
+      return await action();
+    } catch (error) {
+      if (error instanceof Exceptions.InvalidTokenException) {
+        // Another call already refreshed while this one was in flight.
+        if (
+          this.#auth.getAccessToken() !== tokenUsed &&
+          this.#auth.isLoggedIn()
+        )
+          return await action();
+
+        logger.info('⚠️ Caught 401. Initiating Auto-Refresh...');
+
+        if (!this.#auth.canRefresh) {
+          throw new Exceptions.UnauthorizedException(
+            'executeWithRetry',
+            'Missing Credentials',
+            { cause: error }
+          );
         }
-    }
 
-    public async start(listeners: Listeners): Promise<void> {
-        return this.executeWithRetry(async () => {
-            this.ensureLoggedIn('start');
-            if (this.#userAgent) return;
+        // Attempt Refresh via clientSecret or tokenProvider (shared with any concurrent caller; sessionRefresh is emitted by onTokensRefreshed)
+        const success = await this.#auth.refreshAccessToken();
 
-            const sipCredentials = await this.#auth.registerSoftphone();
-            const edgeDomain = await this.#auth.retrieveUserProfile();
+        if (success) return await action();
 
-            this.#server = edgeDomain;
-            this.#clientListeners = listeners;
-
-            const config = { auth: this.#auth, listeners, sipCredentials, edgeDomain };
-            if (!this.#userAgent) {
-                this.#userAgent = new UserAgent(config);
-                await this.#userAgent.startUA();
-            }
-
-            if (!this.#appStateSubscription) {
-                console.log('Softphone: Setting up AppState listener for auto-reconnect.');
-                this.#appStateSubscription = AppState.addEventListener('change', this.#handleAppStateChange);
-            }
-        });
+        await this.logout();
+        throw new Exceptions.UnauthorizedException(
+          'executeWithRetry',
+          'Session expired.',
+          { cause: error }
+        );
+      }
+      throw error;
     }
-
-    #handleAppStateChange = async (nextAppState: AppStateStatus) => {
-        if (nextAppState === 'active') {
-            console.log('Softphone: App came to FOREGROUND. Checking connection...');
-            if (this.#userAgent) {
-                // Small delay to allow network to wake up
-                setTimeout(async () => {
-                    await this.#userAgent?.reconnect();
-                }, 1000);
-            }
-        } else if (nextAppState === 'background') {
-            console.log('Softphone: App went to BACKGROUND.');
-            // Note: On iOS, the socket WILL die here unless you use VoIP Push.
-            // On Android, it might survive if you use a Foreground Service (see below).
-        }
-    };
-
-    public async connect(): Promise<void> {
-        this.ensureLoggedIn('connect');
-        console.log('Softphone: Manual connection requested.');
-
-        if (this.#userAgent) {
-            await this.#userAgent.reconnect();
-        } else if (this.#clientListeners) {
-            // If UA was destroyed or never started, do a full start
-            await this.start(this.#clientListeners);
-        } else {
-            console.warn('Softphone: Cannot connect. Call start(listeners) at least once first.');
-        }
+  }
+
+  /**
+   * Subscribes to an SDK event. Returns a function that removes the subscription.
+   * Can be called before or after `start()`; any number of handlers may listen.
+   */
+  public on<E extends keyof SoftphoneEvents>(
+    event: E,
+    handler: SoftphoneEvents[E]
+  ): () => void {
+    return this.#events.on(event, handler);
+  }
+
+  public once<E extends keyof SoftphoneEvents>(
+    event: E,
+    handler: SoftphoneEvents[E]
+  ): () => void {
+    return this.#events.once(event, handler);
+  }
+
+  public off<E extends keyof SoftphoneEvents>(
+    event: E,
+    handler: SoftphoneEvents[E]
+  ): void {
+    this.#events.off(event, handler);
+  }
+
+  /**
+   * @param listeners Optional single-object form of `on()`. Passing a different object
+   * on a later call replaces the previous one.
+   */
+  public async start(
+    listeners: Listeners = {},
+    options: StartOptions = {}
+  ): Promise<void> {
+    return this.executeWithRetry(async () => {
+      this.ensureLoggedIn('start');
+      if (listeners !== this.#clientListeners) {
+        this.#unbindListeners?.();
+        this.#unbindListeners = bindListeners(listeners, this.#events);
+        this.#clientListeners = listeners;
+      }
+      if (this.#userAgent) return;
+
+      const {
+        maxConcurrentCalls,
+        qualityMonitor,
+        reconnection,
+        callHistory,
+        callSetupTimeoutMs,
+        autoReject,
+      } = options;
+      if (
+        maxConcurrentCalls !== undefined &&
+        (!Number.isInteger(maxConcurrentCalls) || maxConcurrentCalls < 1)
+      ) {
+        throw new Exceptions.InvalidValueException(
+          'start',
+          'maxConcurrentCalls',
+          maxConcurrentCalls,
+          ['Integer >= 1']
+        );
+      }
+      if (
+        qualityMonitor?.intervalMs !== undefined &&
+        !(qualityMonitor.intervalMs >= 500)
+      ) {
+        throw new Exceptions.InvalidValueException(
+          'start',
+          'qualityMonitor.intervalMs',
+          qualityMonitor.intervalMs,
+          ['Number >= 500']
+        );
+      }
+      if (reconnection) Softphone.#validateReconnectionPolicy(reconnection);
+      if (
+        callHistory?.maxRecords !== undefined &&
+        (!Number.isInteger(callHistory.maxRecords) ||
+          callHistory.maxRecords < 1)
+      ) {
+        throw new Exceptions.InvalidValueException(
+          'start',
+          'callHistory.maxRecords',
+          callHistory.maxRecords,
+          ['Integer >= 1']
+        );
+      }
+      if (
+        callHistory?.maxAgeDays !== undefined &&
+        !(callHistory.maxAgeDays > 0)
+      ) {
+        throw new Exceptions.InvalidValueException(
+          'start',
+          'callHistory.maxAgeDays',
+          callHistory.maxAgeDays,
+          ['Number > 0']
+        );
+      }
+      if (
+        callSetupTimeoutMs !== undefined &&
+        !(callSetupTimeoutMs >= 0 && callSetupTimeoutMs <= MAX_TIMER_DELAY)
+      ) {
+        throw new Exceptions.InvalidValueException(
+          'start',
+          'callSetupTimeoutMs',
+          callSetupTimeoutMs,
+          [`Number between 0 and ${MAX_TIMER_DELAY}`]
+        );
+      }
+      if (
+        autoReject?.blockedNumbers !== undefined &&
+        !Array.isArray(autoReject.blockedNumbers)
+      ) {
+        throw new Exceptions.InvalidValueException(
+          'start',
+          'autoReject.blockedNumbers',
+          autoReject.blockedNumbers,
+          ['Array of phone numbers']
+        );
+      }
+      if (
+        autoReject?.isWithinWorkingHours !== undefined &&
+        typeof autoReject.isWithinWorkingHours !== 'function'
+      ) {
+        throw new Exceptions.InvalidValueException(
+          'start',
+          'autoReject.isWithinWorkingHours',
+          autoReject.isWithinWorkingHours,
+          ['Function']
+        );
+      }
+
+      const sipCredentials = await this.#auth.registerSoftphone();
+      const edgeDomain = await this.#auth.retrieveUserProfile();
+
+      this.#server = edgeDomain;
+      this.#startOptions = options;
+
+      const config = {
+        auth: this.#auth,
+        events: this.#events,
+        sipCredentials,
+        edgeDomain,
+        ...options,
+      };
+      if (!this.#userAgent) {
+        this.#userAgent = new UserAgent(config);
+        await this.#userAgent.startUA();
+      }
+
+      if (!this.#historySubscription && callHistory?.enabled !== false) {
+        const subscriptions = [
+          this.#events.on('callHangup', (session) => {
+            CallHistoryStore.add(
+              this.#historyKey,
+              session.toCallRecord(),
+              this.#startOptions.callHistory
+            );
+          }),
+          this.#events.on('callAutoRejected', (call) => {
+            CallHistoryStore.add(
+              this.#historyKey,
+              Softphone.#toAutoRejectedRecord(call),
+              this.#startOptions.callHistory
+            );
+          }),
+        ];
+        this.#historySubscription = () =>
+          subscriptions.forEach((unsubscribe) => unsubscribe());
+      }
+
+      if (!this.#appStateSubscription) {
+        logger.info('Setting up AppState listener for auto-reconnect.');
+        this.#appStateSubscription = AppState.addEventListener(
+          'change',
+          this.#handleAppStateChange
+        );
+      }
+
+      if (!this.#networkSubscription && options.networkMonitor !== false) {
+        const monitor = options.networkMonitor ?? new NetInfoNetworkMonitor();
+        this.#networkSubscription = monitor.subscribe(
+          this.#handleNetworkChange
+        );
+        monitor
+          .getState()
+          .then((state) => {
+            if (!this.#networkState) this.#networkState = state;
+          })
+          .catch((e) =>
+            logger.warn('Failed to read initial network state.', e)
+          );
+      }
+    });
+  }
+
+  #handleNetworkChange = async (state: NetworkState) => {
+    const previous = this.#networkState;
+    this.#networkState = state;
+    if (!previous || !this.#userAgent) return;
+    if (
+      previous.isConnected === state.isConnected &&
+      previous.type === state.type
+    )
+      return;
+
+    let reason: ConnectionChangeReason;
+    if (!state.isConnected) reason = 'network-lost';
+    else if (!previous.isConnected) reason = 'network-restored';
+    else reason = 'network-changed';
+
+    logger.info(`Network ${reason}: ${previous.type} -> ${state.type}`);
+    this.#events.emit('networkChange', state, reason);
+
+    if (reason === 'network-lost') {
+      this.#userAgent.pauseReconnect(reason);
+      return;
     }
 
-    get primaryVN() {
-        return this.#primaryVN;
+    if (reason === 'network-restored')
+      await this.#userAgent.resumeReconnect(reason);
+    else await this.#userAgent.restartTransport(reason);
+
+    if (previous.type !== state.type) {
+      for (const session of this.getSessions()) {
+        if (session.state !== SessionState.Established) continue;
+        session
+          .recoverMedia()
+          .catch((e) => logger.warn('Media recovery failed.', e));
+      }
     }
-
-    /**
-         * Initiates an outbound call.
-         * @param number The destination phone number (e.g., "+91...")
-         * @param virtualNumber (Optional) The caller ID to use. If omitted, uses the user's default.
-         * @param options Additional options for the call.
-         */
-    public async makeCall(number: any, virtualNumber?: string | null, options = {}) {
-        // Wrap logic in retry mechanism (handles 401s automatically)
-        return this.executeWithRetry(async () => {
-            this.ensureLoggedIn('makeCall');
-
-            // 1. Permission Check
-            if (!this.#auth.permissions.find(p => p.action === 'outbound calls')) {
-                throw new Exceptions.PermissionDeniedException('Softphone.makeCall', 'You do not have permission to make outbound calls');
-            }
-
-            // 2. Destination Validation
-            if (!number || !number.trim()?.length) {
-                throw new Exceptions.MissingParameterException('Softphone.makeCall', ['number']);
-            }
-
-            if (!validatePhoneNumber(number)) {
-                throw new Exceptions.InvalidValueException(
-                    'Softphone.makeCall',
-                    'number',
-                    number,
-                    ['E.164 format (e.g., +[Country Code][Number])']
-                );
-            }
-
-            // 3. Determine the "From" Number (Caller ID)
-            const currentProfileVN = this.#auth.getPrimaryVN; // Retrieved from Auth cache
-            const targetVirtualNumber = virtualNumber || currentProfileVN;
-
-            if (!targetVirtualNumber) {
-                // Fail if user didn't provide one AND we couldn't find one in the profile
-                throw new Exceptions.MissingParameterException('Softphone.makeCall', ['virtualNumber (Not provided and not found in profile)']);
-            }
-
-            console.log(`Softphone: Initiating call. To: ${number}, From: ${targetVirtualNumber}`);
-
-            // 4. Handle Virtual Number Switching
-            // We only hit the API if the user EXPLICITLY requested a specific number (virtualNumber is set)
-            // AND that number is different from what is currently active on the profile.
-            if (virtualNumber && currentProfileVN && virtualNumber !== currentProfileVN) {
-                console.log(`Softphone: Requested VN (${virtualNumber}) differs from Profile VN (${currentProfileVN}). Updating profile...`);
-
-                const response = await this.#updatePrimaryVirtualNumber(virtualNumber);
-
-                // If the update caused an Edge Domain change (server switch), reconnect WS
-                if (response?.edgeDomain && response.edgeDomain !== this.#server) {
-                    console.log('Softphone: Edge domain changed. Reconnecting...');
-                    await this.#handleEdgeDomainChange(response.edgeDomain);
-                }
-            }
-
-            // 5. Execute Call
-            // The SIP Invite doesn't explicitly need the 'from' number here because 
-            // the server uses the configured Primary VN (which we just ensured is correct above).
-            return await this.#userAgent?.makeCall(number, options);
-        });
+  };
+
+  static #validateReconnectionPolicy(policy: ReconnectionPolicy): void {
+    const { initialDelayMs, multiplier, maxDelayMs, jitter, maxAttempts } =
+      policy;
+    const invalid = (param: string, value: unknown, valid: string) => {
+      throw new Exceptions.InvalidValueException(
+        'start',
+        `reconnection.${param}`,
+        value,
+        [valid]
+      );
+    };
+    if (initialDelayMs !== undefined && !(initialDelayMs >= 0))
+      invalid('initialDelayMs', initialDelayMs, 'Number >= 0');
+    if (multiplier !== undefined && !(multiplier >= 1))
+      invalid('multiplier', multiplier, 'Number >= 1');
+    if (maxDelayMs !== undefined && !(maxDelayMs >= (initialDelayMs ?? 0)))
+      invalid('maxDelayMs', maxDelayMs, 'Number >= initialDelayMs');
+    if (jitter !== undefined && !(jitter >= 0 && jitter <= 1))
+      invalid('jitter', jitter, 'Number between 0 and 1');
+    if (
+      maxAttempts !== undefined &&
+      !(
+        maxAttempts === Infinity ||
+        (Number.isInteger(maxAttempts) && maxAttempts >= 0)
+      )
+    ) {
+      invalid('maxAttempts', maxAttempts, 'Integer >= 0 or Infinity');
     }
-
-
-
-    /**
-     * Returns the list of virtual numbers available to the user.
-     */
-    public getVirtualNumbers(): VirtualNumber[] {
-        this.ensureLoggedIn('getVirtualNumbers');
-        return this.#auth.getVirtualNumbers;
+  }
+
+  /**
+   * Refreshes the access token shortly before its `exp`, so API calls rarely see a 401.
+   */
+  #scheduleTokenRefresh(delay?: number): void {
+    this.#cancelTokenRefresh();
+    const expiry = getTokenExpiry(this.#auth.getAccessToken());
+    if (!expiry) return;
+
+    const due =
+      delay ?? Math.max(0, expiry - Date.now() - TOKEN_REFRESH_MARGIN);
+    this.#tokenRefreshTimer = setTimeout(
+      async () => {
+        this.#tokenRefreshTimer = null;
+        if (!this.#auth.isLoggedIn() || !this.#auth.canRefresh) return;
+        // Long-lived tokens are reached in several capped hops.
+        if (expiry - Date.now() > TOKEN_REFRESH_MARGIN) {
+          this.#scheduleTokenRefresh();
+          return;
+        }
+        let success = false;
+        try {
+          success = await this.#auth.refreshAccessToken();
+        } catch (error) {
+          // The new tokens are in memory; only persisting them failed.
+          logger.error('Failed to store refreshed tokens.', error);
+          this.#scheduleTokenRefresh();
+          return;
+        }
+        if (!success && expiry > Date.now()) {
+          logger.warn(
+            `Proactive token refresh failed. Retrying in ${TOKEN_REFRESH_RETRY_DELAY}ms.`
+          );
+          this.#scheduleTokenRefresh(TOKEN_REFRESH_RETRY_DELAY);
+        }
+      },
+      Math.min(due, MAX_TIMER_DELAY)
+    );
+  }
+
+  #cancelTokenRefresh(): void {
+    if (this.#tokenRefreshTimer) clearTimeout(this.#tokenRefreshTimer);
+    this.#tokenRefreshTimer = null;
+  }
+
+  #handleAppStateChange = async (nextAppState: AppStateStatus) => {
+    if (nextAppState === 'active') {
+      logger.info('App came to FOREGROUND. Checking connection...');
+      // Timers do not run while suspended; re-arm against the wall clock.
+      this.#scheduleTokenRefresh();
+      if (this.#userAgent) {
+        // Small delay to allow network to wake up
+        setTimeout(async () => {
+          await this.#userAgent?.reconnect();
+        }, 1000);
+      }
+    } else if (nextAppState === 'background') {
+      logger.info('App went to BACKGROUND.');
+      // Note: On iOS, the socket WILL die here unless you use VoIP Push.
+      // On Android, it might survive if you use a Foreground Service (see below).
     }
-
-    async #updatePrimaryVirtualNumber(virtualNumber: any) {
-        const Url = BASE_URL + `/auth/update-userprofile/?email=${encodeURIComponent(this.#auth.getEmail() || "")}`;
-        const response = await fetch(Url, {
-            method: 'PATCH',
-            headers: { 'authorization': `Bearer ${this.#auth.getAccessToken()}`, 'Content-type': 'application/json' },
-            body: JSON.stringify({ 'primary_vn': virtualNumber })
-        });
-        if (response.status === 401) throw new Exceptions.InvalidTokenException('updatePrimaryVirtualNumber', 'EXPIRED');
-        const responseData = await response.json();
-        if (response.status !== 200) throw new Exceptions.UnknownException('Softphone.makeCall', JSON.stringify(responseData.message || ''));
-
-        this.#primaryVN = responseData.data?.primary_virtual_number?.country_code + responseData.data?.primary_virtual_number?.number;
-        return { success: true, edgeDomain: responseData.data?.edge_domain };
+  };
+
+  public async connect(): Promise<void> {
+    this.ensureLoggedIn('connect');
+    logger.info('Manual connection requested.');
+
+    if (this.#userAgent) {
+      await this.#userAgent.reconnect();
+    } else if (this.#clientListeners) {
+      // If UA was destroyed or never started, do a full start
+      await this.start(this.#clientListeners, this.#startOptions);
+    } else {
+      logger.warn('Cannot connect. Call start(listeners) at least once first.');
     }
-
-    public async logout(): Promise<void> {
-
-        if (this.#appStateSubscription) {
-            this.#appStateSubscription.remove();
-            this.#appStateSubscription = null;
-        }
-
-        if (this.#userAgent) {
-            await this.#userAgent.stopUA();
-            this.#userAgent = null;
+  }
+
+  get primaryVN() {
+    return this.#primaryVN;
+  }
+
+  /**
+   * Initiates an outbound call.
+   * @param number The destination phone number (e.g., "+91...")
+   * @param virtualNumber (Optional) The caller ID to use. If omitted, uses the user's default.
+   * @param options Additional options for the call.
+   */
+  public async makeCall(
+    number: any,
+    virtualNumber?: string | null,
+    options = {}
+  ) {
+    // Wrap logic in retry mechanism (handles 401s automatically)
+    return this.executeWithRetry(async () => {
+      this.ensureLoggedIn('makeCall');
+
+      // 1. Permission Check
+      if (!this.#auth.permissions.find((p) => p.action === 'outbound calls')) {
+        throw new Exceptions.PermissionDeniedException(
+          'Softphone.makeCall',
+          'You do not have permission to make outbound calls'
+        );
+      }
+
+      // 2. Destination Validation
+      if (!number || !number.trim()?.length) {
+        throw new Exceptions.MissingParameterException('Softphone.makeCall', [
+          'number',
+        ]);
+      }
+
+      if (!validatePhoneNumber(number)) {
+        throw new Exceptions.InvalidValueException(
+          'Softphone.makeCall',
+          'number',
+          number,
+          ['E.164 format (e.g., +[Country Code][Number])']
+        );
+      }
+
+      // 3. Determine the "From" Number (Caller ID)
+      const currentProfileVN = this.#auth.getPrimaryVN; // Retrieved from Auth cache
+      const targetVirtualNumber = virtualNumber || currentProfileVN;
+
+      if (!targetVirtualNumber) {
+        // Fail if user didn't provide one AND we couldn't find one in the profile
+        throw new Exceptions.MissingParameterException('Softphone.makeCall', [
+          'virtualNumber (Not provided and not found in profile)',
+        ]);
+      }
+
+      logger.info(
+        `Initiating call. To: ${number}, From: ${targetVirtualNumber}`
+      );
+
+      // 4. Handle Virtual Number Switching
+      // We only hit the API if the user EXPLICITLY requested a specific number (virtualNumber is set)
+      // AND that number is different from what is currently active on the profile.
+      if (
+        virtualNumber &&
+        currentProfileVN &&
+        virtualNumber !== currentProfileVN
+      ) {
+        logger.info(
+          `Requested VN (${virtualNumber}) differs from Profile VN (${currentProfileVN}). Updating profile...`
+        );
+
+        const response = await this.#updatePrimaryVirtualNumber(virtualNumber);
+
+        // If the update caused an Edge Domain change (server switch), reconnect WS
+        if (response?.edgeDomain && response.edgeDomain !== this.#server) {
+          logger.info('Edge domain changed. Reconnecting...');
+          await this.#handleEdgeDomainChange(response.edgeDomain);
         }
-        await this.#auth.logout();
+      }
+
+      // 5. Execute Call
+      // The SIP Invite doesn't explicitly need the 'from' number here because
+      // the server uses the configured Primary VN (which we just ensured is correct above).
+      return await this.#userAgent?.makeCall(number, {
+        ...options,
+        virtualNumber: targetVirtualNumber,
+      });
+    });
+  }
+
+  public isLoggedIn(): boolean {
+    return this.#auth.isLoggedIn();
+  }
+
+  /**
+   * Whether the SIP user agent is currently registered and can receive calls.
+   */
+  public isRegistered(): boolean {
+    return this.#userAgent?.isRegistered() ?? false;
+  }
+
+  public getAvailability(): Availability {
+    return this.#auth.availability;
+  }
+
+  /**
+   * Sets whether incoming calls are offered. Outgoing calls are unaffected. The value is
+   * stored with the session and restored by `initialize()` / `restore()`.
+   */
+  public async setAvailability(availability: Availability): Promise<void> {
+    this.ensureLoggedIn('setAvailability');
+    if (!AVAILABILITY_MODES.includes(availability)) {
+      throw new Exceptions.InvalidValueException(
+        'setAvailability',
+        'availability',
+        availability,
+        AVAILABILITY_MODES
+      );
     }
-
-    private static ensureInitialized(methodName: string): void {
-        console.log('Softphone: Ensuring initialized...', methodName);
-        if (!this.#isInitialized) throw new Error(`Softphone SDK not initialized.`);
+    const previous = this.#auth.availability;
+    if (availability === previous) return;
+
+    await this.#auth.setAvailability(availability);
+    await this.#userAgent?.setAvailability(availability);
+    logger.info(`Availability changed from ${previous} to ${availability}.`);
+    this.#events.emit('availabilityChange', availability, previous);
+  }
+
+  /**
+   * Returns every call that has not yet terminated, oldest first.
+   */
+  public getSessions(): Session[] {
+    return this.#userAgent?.getSessions() ?? [];
+  }
+
+  /**
+   * Returns the established call currently in focus (not on hold), if any.
+   */
+  public getActiveSession(): Session | null {
+    return this.#userAgent?.getActiveSession() ?? null;
+  }
+
+  /**
+   * Returns calls from the local call log, newest first.
+   */
+  public async getCallHistory({
+    limit,
+    before,
+    direction,
+    missedOnly,
+  }: CallHistoryQuery = {}): Promise<CallRecord[]> {
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+      throw new Exceptions.InvalidValueException(
+        'getCallHistory',
+        'limit',
+        limit,
+        ['Integer >= 0']
+      );
     }
-
-    private ensureLoggedIn(methodName: string): void {
-        if (!this.#auth.isLoggedIn()) throw new Exceptions.UnauthorizedException(methodName, `Login is required.`);
+    const cutoff = before instanceof Date ? before.getTime() : before;
+    const records = (await CallHistoryStore.getAll(this.#historyKey)).filter(
+      (record) =>
+        (cutoff === undefined || record.createdAt < cutoff) &&
+        (!direction || record.direction === direction) &&
+        (!missedOnly || record.outcome === 'missed')
+    );
+    return limit === undefined ? records : records.slice(0, limit);
+  }
+
+  /**
+   * Removes a single record from the call log. Resolves to false if no record had that id.
+   */
+  public async deleteCallRecord(id: string): Promise<boolean> {
+    return CallHistoryStore.remove(this.#historyKey, id);
+  }
+
+  public async clearCallHistory(): Promise<void> {
+    await CallHistoryStore.clear(this.#historyKey);
+  }
+
+  /**
+   * Returns the list of virtual numbers available to the user.
+   */
+  public getVirtualNumbers(): VirtualNumber[] {
+    this.ensureLoggedIn('getVirtualNumbers');
+    return this.#auth.getVirtualNumbers;
+  }
+
+  async #updatePrimaryVirtualNumber(virtualNumber: any) {
+    const responseData = await this.#auth.api.request(
+      'updatePrimaryVirtualNumber',
+      '/auth/update-userprofile/',
+      {
+        method: 'PATCH',
+        query: { email: this.#auth.getEmail() || '' },
+        headers: { authorization: `Bearer ${this.#auth.getAccessToken()}` },
+        body: { primary_vn: virtualNumber },
+      }
+    );
+
+    this.#primaryVN =
+      responseData.data?.primary_virtual_number?.country_code +
+      responseData.data?.primary_virtual_number?.number;
+    return { success: true, edgeDomain: responseData.data?.edge_domain };
+  }
+
+  public async logout(): Promise<void> {
+    // Nothing started before logout may complete after it.
+    this.#auth.api.abortAll();
+    this.#cancelTokenRefresh();
+    this.#auth.onTokensRefreshed = null;
+
+    if (this.#networkSubscription) {
+      this.#networkSubscription();
+      this.#networkSubscription = null;
+      this.#networkState = null;
     }
 
-    async #handleEdgeDomainChange(edgeDomain: string) {
-        if (!this.#userAgent) throw new Exceptions.UnknownException('Softphone', 'UserAgent not initialized');
-        await this.#userAgent.unregister();
-        await this.#userAgent.stopUA();
-        this.#server = edgeDomain;
-        this.#userAgent = null;
+    if (this.#appStateSubscription) {
+      this.#appStateSubscription.remove();
+      this.#appStateSubscription = null;
+    }
 
-        const sipCredentials = await this.#auth.registerSoftphone();
-        const config = { auth: this.#auth, listeners: this.#clientListeners, sipCredentials, edgeDomain };
-        this.#userAgent = new UserAgent(config);
-        await this.#userAgent.startUA();
+    if (this.#userAgent) {
+      await this.#userAgent.stopUA();
+      this.#userAgent = null;
     }
 
-    public getTokens(): TokenPayload | null {
-        const accessToken = this.#auth.getAccessToken();
-        const refreshToken = this.#auth.getRefreshToken();
-        const email = this.#auth.getEmail();
+    // Only what start() attached; handlers added with on(), e.g. by the React hooks, stay subscribed.
+    this.#unbindListeners?.();
+    this.#unbindListeners = null;
+    this.#clientListeners = null;
+    this.#historySubscription?.();
+    this.#historySubscription = null;
+    await CallHistoryStore.clear(this.#historyKey);
+    await this.#auth.logout();
+  }
+
+  /** Auto-rejected calls never get a Session, so their history record is built here. */
+  static #toAutoRejectedRecord({
+    id,
+    remoteContact,
+    rule,
+    statusCode,
+    at,
+  }: AutoRejectedCall): CallRecord {
+    return {
+      id,
+      direction: 'Incoming',
+      remoteContact,
+      metadata: {},
+      createdAt: at,
+      endedAt: at,
+      duration: 0,
+      outcome: 'rejected',
+      endReason: { type: 'rejected', statusCode, rule },
+    };
+  }
+
+  static #createAuthContext({
+    credentials,
+    config,
+    tokenStore,
+    fetch,
+  }: SoftphoneContext): AuthContext {
+    return {
+      api: new ApiClient({
+        baseUrl: config.baseUrl,
+        timeoutMs: config.requestTimeoutMs,
+        fetch,
+      }),
+      config,
+      tokenStore,
+      credentials,
+    };
+  }
+
+  static #createAuth(context: SoftphoneContext): Auth {
+    return new Auth(this.#createAuthContext(context));
+  }
+
+  private static ensureInitialized(methodName: string): SoftphoneContext {
+    logger.debug('Ensuring initialized...', methodName);
+    if (!this.#context) throw new Error(`Softphone SDK not initialized.`);
+    return this.#context;
+  }
+
+  private ensureLoggedIn(methodName: string): void {
+    if (!this.#auth.isLoggedIn())
+      throw new Exceptions.UnauthorizedException(
+        methodName,
+        `Login is required.`
+      );
+  }
+
+  async #handleEdgeDomainChange(edgeDomain: string) {
+    if (!this.#userAgent)
+      throw new Exceptions.UnknownException(
+        'Softphone',
+        'UserAgent not initialized'
+      );
+    await this.#userAgent.unregister();
+    await this.#userAgent.stopUA();
+    this.#server = edgeDomain;
+    this.#userAgent = null;
+
+    const sipCredentials = await this.#auth.registerSoftphone();
+    const config = {
+      auth: this.#auth,
+      events: this.#events,
+      sipCredentials,
+      edgeDomain,
+      ...this.#startOptions,
+    };
+    this.#userAgent = new UserAgent(config);
+    await this.#userAgent.startUA();
+  }
 
-        if (accessToken && refreshToken && email) {
-            return { accessToken, refreshToken, email };
-        }
-        return null;
+  public getTokens(): TokenPayload | null {
+    const accessToken = this.#auth.getAccessToken();
+    const refreshToken = this.#auth.getRefreshToken();
+    const email = this.#auth.getEmail();
+
+    if (accessToken && refreshToken && email) {
+      return { accessToken, refreshToken, email };
     }
+    return null;
+  }
 }
 
-export default Softphone;
\ No newline at end of file
+export default Softphone;
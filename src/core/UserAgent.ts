@@ -1,214 +1,719 @@
 import {
-    UserAgent as SIPUserAgent,
-    Inviter,
-    Registerer,
-    RegistererState,
-    type LogLevel,
-    Invitation,
-    UserAgentState
+  UserAgent as SIPUserAgent,
+  Inviter,
+  Registerer,
+  RegistererState,
+  type LogLevel as SipLogLevel,
+  Invitation,
+  UserAgentState,
+  SessionState,
 } from 'sip.js';
 import { Session } from './Session';
 import type Auth from './Auth';
-import type { Listeners } from '../types';
+import type {
+  AutoRejectOptions,
+  AutoRejectRule,
+  Availability,
+  ConnectionChangeReason,
+  QualityMonitorOptions,
+  ReconnectionPolicy,
+  RejectStatusCode,
+  SoftphoneEvents,
+} from '../types';
+import type { TypedEventEmitter } from '../utils/EventEmitter';
 import type { SipCredentials } from './Auth';
-import { REGISTRATION_EXPIRES } from '../constants';
-import { isTokenValid, SessionType } from '../utils/validation';
-import { InvalidValueException, UnknownException } from '../exceptions';
+import {
+  CALL_SETUP_TIMEOUT,
+  MAX_CONCURRENT_CALLS,
+  MAX_TIMER_DELAY,
+  RECONNECT_INITIAL_DELAY,
+  RECONNECT_JITTER,
+  RECONNECT_MAX_ATTEMPTS,
+  RECONNECT_MAX_DELAY,
+  RECONNECT_MULTIPLIER,
+  REREGISTER_MAX_ATTEMPTS,
+  TOKEN_REFRESH_MARGIN,
+  TOKEN_REFRESH_RETRY_DELAY,
+} from '../constants';
+import {
+  getTokenExpiry,
+  isTokenValid,
+  SessionType,
+  toDigits,
+} from '../utils/validation';
+import {
+  BaseException,
+  CallLimitException,
+  SipRegistrationException,
+} from '../exceptions';
+import { createLogger, isLevelEnabled, write } from '../utils/logger';
+
+const logger = createLogger('UserAgent');
+
+const SIP_LOG_LEVELS: Record<SipLogLevel, 'debug' | 'info' | 'warn' | 'error'> =
+  {
+    debug: 'debug',
+    log: 'info',
+    warn: 'warn',
+    error: 'error',
+  };
+
+/**
+ * The most verbose sip.js level that the `SIP` log category will actually write.
+ */
+const getSipLogLevel = (): SipLogLevel => {
+  if (isLevelEnabled('SIP', 'debug')) return 'debug';
+  if (isLevelEnabled('SIP', 'info')) return 'log';
+  if (isLevelEnabled('SIP', 'warn')) return 'warn';
+  return 'error';
+};
+
+const AUTO_REJECT_STATUS: Record<AutoRejectRule, RejectStatusCode> = {
+  'call-limit': 486,
+  'in-call': 486,
+  'outside-working-hours': 480,
+  'blocked-number': 603,
+  'dnd': 486,
+  'away': 480,
+};
 
 interface UserAgentConfig {
-    auth: Auth;
-    listeners: Listeners;
-    sipCredentials: SipCredentials;
-    edgeDomain: string;
+  auth: Auth;
+  events: TypedEventEmitter<SoftphoneEvents>;
+  sipCredentials: SipCredentials;
+  edgeDomain: string;
+  maxConcurrentCalls?: number;
+  qualityMonitor?: QualityMonitorOptions;
+  reconnection?: ReconnectionPolicy;
+  callSetupTimeoutMs?: number;
+  earlyMedia?: boolean;
+  autoReject?: AutoRejectOptions;
 }
 
 class UserAgent extends SIPUserAgent {
-    #server: string;
-    #auth: Auth;
-    #listeners: Listeners;
-    #reConnectAttempts: number = 0;
-    #registerer: Registerer | null = null;
-    #updatingAuth = false;
-    #maxRetryAttempts = 3;
-    #reRegisterAttempts = 0;
-    #session: Session | null = null;
-
-    constructor(config: UserAgentConfig) {
-        const options = {
-            transportOptions: {
-                server: `wss://${config.edgeDomain}:9080/`,
-                traceSip: true,
-                connectionTimeout: 15,
-            },
-            logLevel: 'debug' as LogLevel,
-            autostart: false,
-            register: false,
-            uri: SIPUserAgent.makeURI(`sip:${config.auth.sipUsername}@${config.edgeDomain}:9080`),
-        }
+  #server: string;
+  #auth: Auth;
+  #events: TypedEventEmitter<SoftphoneEvents>;
+  #reConnectAttempts: number = 0;
+  #registerer: Registerer | null = null;
+  #updatingAuth = false;
+  // Rejected REGISTERs are retried right away, so this stays small whatever the reconnection policy.
+  #maxRetryAttempts = REREGISTER_MAX_ATTEMPTS;
+  #reconnection: Required<ReconnectionPolicy>;
+  #reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  #isStopped = false;
+  #isReconnectPaused = false;
+  #networkReason: ConnectionChangeReason | undefined;
+  #reRegisterAttempts = 0;
+  #registrationError: SipRegistrationException | undefined;
+  #sipTokenTimer: ReturnType<typeof setTimeout> | null = null;
+  #sessions = new Map<string, Session>();
+  #maxConcurrentCalls: number;
+  #qualityMonitorOptions: QualityMonitorOptions;
+  #callSetupTimeoutMs: number;
+  #earlyMedia: boolean;
+  #autoReject: AutoRejectOptions;
+  #blockedNumbers: Set<string>;
+  #availability: Availability;
+
+  constructor(config: UserAgentConfig) {
+    const { sipTransport, sipPort, connectionTimeout } = config.auth.config;
+    const options = {
+      transportOptions: {
+        server: `${sipTransport}://${config.edgeDomain}:${sipPort}/`,
+        traceSip: isLevelEnabled('SIP', 'debug'),
+        connectionTimeout,
+      },
+      logLevel: getSipLogLevel(),
+      logBuiltinEnabled: false,
+      logConnector: (
+        level: SipLogLevel,
+        category: string,
+        label: string | undefined,
+        content: string
+      ) => {
+        write(
+          SIP_LOG_LEVELS[level],
+          'SIP',
+          `${label ? `${category} | ${label}` : category} | ${content}`,
+          []
+        );
+      },
+      autostart: false,
+      register: false,
+      // Auto-rejected calls must not ring first; onInvite sends the 180 once the rules pass.
+      sendInitialProvisionalResponse: false,
+      uri: SIPUserAgent.makeURI(
+        `sip:${config.auth.sipUsername}@${config.edgeDomain}:${sipPort}`
+      ),
+    };
+
+    super(options);
+    this.#server = config.edgeDomain;
+    this.#auth = config.auth;
+    this.#events = config.events;
+    this.#maxConcurrentCalls =
+      config.maxConcurrentCalls ?? MAX_CONCURRENT_CALLS;
+    this.#qualityMonitorOptions = config.qualityMonitor ?? {};
+    this.#callSetupTimeoutMs = config.callSetupTimeoutMs ?? CALL_SETUP_TIMEOUT;
+    this.#earlyMedia = config.earlyMedia ?? true;
+    this.#autoReject = config.autoReject ?? {};
+    this.#availability = config.auth.availability;
+    this.#blockedNumbers = new Set(
+      (this.#autoReject.blockedNumbers ?? []).map(toDigits).filter(Boolean)
+    );
+    this.#reconnection = {
+      initialDelayMs:
+        config.reconnection?.initialDelayMs ?? RECONNECT_INITIAL_DELAY,
+      multiplier: config.reconnection?.multiplier ?? RECONNECT_MULTIPLIER,
+      maxDelayMs: config.reconnection?.maxDelayMs ?? RECONNECT_MAX_DELAY,
+      jitter: config.reconnection?.jitter ?? RECONNECT_JITTER,
+      maxAttempts: config.reconnection?.maxAttempts ?? RECONNECT_MAX_ATTEMPTS,
+    };
 
-        super(options);
-        this.#server = config.edgeDomain;
-        this.#auth = config.auth;
-        this.#listeners = config.listeners;
-
-        this.delegate = {
-            onConnect: () => {
-                console.log('SIP UserAgent connected.');
-                this.#reConnectAttempts = 0;
-                if (this.#listeners.onConnectionStateChange) {
-                    this.#listeners.onConnectionStateChange("UserAgentState", "Connected", false);
-                }
-                this.startRegistration();
-            },
-            onDisconnect: (error) => {
-                console.log('SIP UserAgent disconnected.', error);
-                if (this.#listeners.onConnectionStateChange) {
-                    this.#listeners.onConnectionStateChange("UserAgentState", "Disconnected", !!error, error);
-                }
-            },
-            onInvite: (invitation: Invitation) => {
-                console.log('Incoming call invitation received');
-                this.#session = new Session(invitation, SessionType, this, this.#listeners);
-                const remoteIdentity = invitation.remoteIdentity.uri.user;
-                this.#session.remoteContact = remoteIdentity;
-
-                if (this.#listeners.onCallCreated) {
-                    // @ts-ignore
-                    this.#listeners.onCallCreated(SessionType.Incoming, this.#session, { candidate: remoteIdentity });
-                }
-            }
+    this.delegate = {
+      onConnect: () => {
+        logger.info('SIP UserAgent connected.');
+        this.#reConnectAttempts = 0;
+        this.#cancelReconnect();
+        this.#sessions.forEach((session) => session.setReconnecting(false));
+        this.#events.emit('connectionStateChange', {
+          type: 'UserAgentState',
+          state: 'Connected',
+          isErrorState: false,
+          reason: this.#networkReason,
+        });
+        if (this.#availability === 'away') {
+          // Not registering, but outgoing calls still send the SIP token.
+          this.#scheduleSipTokenRefresh();
+          return;
         }
+        this.startRegistration().catch((e) =>
+          logger.warn('Failed to send SIP REGISTER.', e)
+        );
+      },
+      onDisconnect: (error) => {
+        logger.info('SIP UserAgent disconnected.', error);
+        this.#events.emit('connectionStateChange', {
+          type: 'UserAgentState',
+          state: 'Disconnected',
+          isErrorState: !!error,
+          error,
+          reason: this.#networkReason,
+        });
+        // A clean disconnect (no error) is one we asked for.
+        if (error) {
+          this.#sessions.forEach((session) => session.setReconnecting(true));
+          this.#scheduleReconnect();
+        }
+      },
+      onInvite: (invitation: Invitation) => {
+        logger.info('Incoming call invitation received');
+        const remoteIdentity = invitation.remoteIdentity.uri.user;
+        const rule = this.#getAutoRejectRule(remoteIdentity);
+        if (rule) {
+          this.#autoRejectInvitation(invitation, rule, remoteIdentity);
+          return;
+        }
+
+        const isCallWaiting = !!this.getActiveSession();
+        const session = new Session(
+          invitation,
+          SessionType,
+          this,
+          this.#events
+        );
+        this.#sessions.set(session.id, session);
+        session.remoteContact = remoteIdentity;
+        session
+          .ringing()
+          .catch((e) => logger.warn('Failed to send 180 Ringing.', e));
+
+        this.#events.emit('callCreated', SessionType.Incoming, session, {
+          candidate: remoteIdentity,
+          isCallWaiting,
+        });
+      },
+    };
+  }
+
+  /**
+   * The first auto-reject rule that applies to an incoming call from `remoteIdentity`, if any.
+   */
+  #getAutoRejectRule(
+    remoteIdentity: string | undefined
+  ): AutoRejectRule | null {
+    if (remoteIdentity && this.#blockedNumbers.has(toDigits(remoteIdentity)))
+      return 'blocked-number';
+    if (this.#availability !== 'available') return this.#availability;
+    if (this.#sessions.size >= this.#maxConcurrentCalls) return 'call-limit';
+    if (this.#autoReject.whenInCall && this.#sessions.size > 0)
+      return 'in-call';
+
+    const { isWithinWorkingHours } = this.#autoReject;
+    if (isWithinWorkingHours) {
+      try {
+        if (!isWithinWorkingHours(new Date())) return 'outside-working-hours';
+      } catch (e) {
+        logger.warn('isWithinWorkingHours threw. Offering the call.', e);
+      }
     }
+    return null;
+  }
+
+  #autoRejectInvitation(
+    invitation: Invitation,
+    rule: AutoRejectRule,
+    remoteIdentity: string | undefined
+  ): void {
+    const statusCode = AUTO_REJECT_STATUS[rule];
+    logger.info(`Declining incoming call (${rule}) with ${statusCode}.`);
+    invitation
+      .reject({ statusCode })
+      .catch((e) => logger.warn('Failed to reject invitation.', e));
+    this.#events.emit('callAutoRejected', {
+      id: invitation.id,
+      remoteContact: remoteIdentity,
+      rule,
+      statusCode,
+      at: Date.now(),
+    });
+  }
+
+  public isConnected(): boolean {
+    return this.transport.isConnected();
+  }
+
+  public isRegistered(): boolean {
+    return this.#registerer?.state === RegistererState.Registered;
+  }
+
+  public async reconnect(): Promise<void> {
+    logger.info('Reconnect requested...');
 
-    public isConnected(): boolean {
-        return this.transport.isConnected();
+    // 1. If UA is stopped, start it
+    if (this.state === UserAgentState.Stopped) {
+      logger.info('UA is stopped. Starting...');
+      await this.start();
+      return; // onConnect delegate will handle registration
     }
 
-    public async reconnect(): Promise<void> {
-        console.log('UserAgent: Reconnect requested...');
+    // 2. If Transport (WebSocket) is disconnected, connect it
+    if (!this.transport.isConnected()) {
+      logger.info('Transport disconnected. Reconnecting transport...');
+      await this.transport.connect();
+      return; // onConnect delegate will handle registration
+    }
 
-        // 1. If UA is stopped, start it
-        if (this.state === UserAgentState.Stopped) {
-            console.log('UserAgent: UA is stopped. Starting...');
-            await this.start();
-            return; // onConnect delegate will handle registration
-        }
+    // 3. If Transport is connected but not registered, register
+    if (this.#availability === 'away') {
+      logger.info('Connected. Not registering while away.');
+    } else if (
+      this.#registerer &&
+      this.#registerer.state !== RegistererState.Registered
+    ) {
+      logger.info(
+        'Transport connected but not registered. Sending REGISTER...'
+      );
+      await this.startRegistration();
+    } else {
+      logger.info('Already connected and registered.');
+    }
+  }
 
-        // 2. If Transport (WebSocket) is disconnected, connect it
-        if (!this.transport.isConnected) {
-            console.log('UserAgent: Transport disconnected. Reconnecting transport...');
-            await this.transport.connect();
-            return; // onConnect delegate will handle registration
-        }
+  get server() {
+    return this.#server;
+  }
+  get events() {
+    return this.#events;
+  }
+  get reConnectAttempts() {
+    return this.#reConnectAttempts;
+  }
+  get isReconnectScheduled() {
+    return !!this.#reconnectTimer;
+  }
+  get qualityMonitorOptions() {
+    return this.#qualityMonitorOptions;
+  }
+  get callSetupTimeoutMs() {
+    return this.#callSetupTimeoutMs;
+  }
+  get earlyMedia() {
+    return this.#earlyMedia;
+  }
 
-        // 3. If Transport is connected but not registered, register
-        if (this.#registerer && this.#registerer.state !== RegistererState.Registered) {
-            console.log('UserAgent: Transport connected but not registered. Sending REGISTER...');
-            await this.#registerer.register();
-        } else {
-            console.log('UserAgent: Already connected and registered.');
-        }
+  async startUA() {
+    this.#isStopped = false;
+    await this.start();
+  }
+
+  /**
+   * Schedules the next transport reconnection attempt using exponential backoff with jitter.
+   */
+  #scheduleReconnect(): void {
+    if (this.#isStopped || this.#isReconnectPaused || this.#reconnectTimer)
+      return;
+
+    if (this.#reConnectAttempts >= this.#reconnection.maxAttempts) {
+      logger.warn(
+        `Giving up after ${this.#reConnectAttempts} reconnection attempts.`
+      );
+      this.#events.emit('reconnectFailed', this.#reConnectAttempts);
+      return;
     }
 
-    get server() { return this.#server; }
-    get listeners() { return this.#listeners; }
-    get reConnectAttempts() { return this.#reConnectAttempts; }
+    this.#reConnectAttempts++;
+    const delay = this.#getReconnectDelay(this.#reConnectAttempts);
+    logger.info(
+      `Reconnection attempt ${this.#reConnectAttempts} in ${delay}ms.`
+    );
+    this.#events.emit('reconnecting', this.#reConnectAttempts, delay);
 
-    async startUA() { await this.start(); }
+    this.#reconnectTimer = setTimeout(async () => {
+      this.#reconnectTimer = null;
+      if (this.#isStopped) return;
+      try {
+        await this.reconnect();
+      } catch (e) {
+        logger.warn('Reconnection attempt failed.', e);
+        this.#scheduleReconnect();
+      }
+    }, delay);
+  }
 
-    async startRegistration() {
-        console.log('in UserAgent.startRegistration');
-        const options = {
-            expires: REGISTRATION_EXPIRES,
-            ["extraHeaders"]: [`token: ${this.#auth.getSipToken}`],
-        }
-        this.#registerer = new Registerer(this, options);
-
-        this.#registerer.stateChange.addListener(async (newState) => {
-            if (this.#listeners.onConnectionStateChange) {
-                this.#listeners.onConnectionStateChange("RegistererState", newState, this.#reRegisterAttempts >= this.#maxRetryAttempts);
-            }
-            switch (newState) {
-                case RegistererState.Unregistered:
-                    if (!this.#updatingAuth && this.#auth.isLoggedIn() && this.#reRegisterAttempts < this.#maxRetryAttempts) {
-                        this.#reRegisterAttempts++;
-                        await this.reRegister();
-                    }
-                    break;
-                case RegistererState.Registered:
-                    console.log('SIP Registration Successful');
-                    this.#reRegisterAttempts = 0;
-                    break;
-            }
-        })
-        console.log('Sending SIP REGISTER request...');
-        await this.#registerer.register();
+  #getReconnectDelay(attempt: number): number {
+    const { initialDelayMs, multiplier, maxDelayMs, jitter } =
+      this.#reconnection;
+    const base = Math.min(
+      maxDelayMs,
+      initialDelayMs * Math.pow(multiplier, attempt - 1)
+    );
+    const spread = base * jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(base + spread));
+  }
+
+  /**
+   * Network went away: stop burning reconnection attempts until it returns.
+   */
+  public pauseReconnect(reason: ConnectionChangeReason): void {
+    this.#networkReason = reason;
+    this.#isReconnectPaused = true;
+    this.#cancelReconnect();
+  }
+
+  /**
+   * Network came back: reconnect right away with a fresh attempt budget.
+   */
+  public async resumeReconnect(reason: ConnectionChangeReason): Promise<void> {
+    this.#networkReason = reason;
+    this.#isReconnectPaused = false;
+    this.#reConnectAttempts = 0;
+    this.#cancelReconnect();
+    try {
+      await this.reconnect();
+    } catch (e) {
+      logger.warn('Reconnect after network restore failed.', e);
+      this.#scheduleReconnect();
     }
+  }
+
+  /**
+   * The interface changed under an open socket, which is usually dead without knowing it.
+   * Drop it and connect again over the new network.
+   */
+  public async restartTransport(reason: ConnectionChangeReason): Promise<void> {
+    this.#networkReason = reason;
+    this.#isReconnectPaused = false;
+    this.#reConnectAttempts = 0;
+    this.#cancelReconnect();
+    try {
+      if (this.state === UserAgentState.Stopped) {
+        await this.start();
+        return;
+      }
+      await this.transport.disconnect();
+      await this.transport.connect();
+    } catch (e) {
+      logger.warn('Transport restart after network change failed.', e);
+      this.#scheduleReconnect();
+    }
+  }
+
+  #cancelReconnect(): void {
+    if (this.#reconnectTimer) clearTimeout(this.#reconnectTimer);
+    this.#reconnectTimer = null;
+  }
 
-    async reRegister() {
+  async startRegistration() {
+    logger.debug('in UserAgent.startRegistration');
+    // One registerer for the life of the UA: replacing it on every reconnect would leave
+    // the old ones refreshing their own bindings.
+    const registerer = this.#registerer ?? this.#createRegisterer();
+    this.#registerer = registerer;
+    logger.info('Sending SIP REGISTER request...');
+    this.#scheduleSipTokenRefresh();
+    await registerer.register({
+      requestOptions: { extraHeaders: [`token: ${this.#auth.getSipToken}`] },
+      requestDelegate: {
+        onReject: ({ message }) => {
+          logger.warn(`SIP registration rejected with ${message.statusCode}.`);
+          this.#registrationError = new SipRegistrationException(
+            'UserAgent.startRegistration',
+            message.statusCode ?? 0,
+            message.reasonPhrase
+          );
+        },
+      },
+    });
+  }
+
+  #createRegisterer(): Registerer {
+    const registerer = new Registerer(this, {
+      expires: this.#auth.config.registrationExpires,
+    });
+    registerer.stateChange.addListener(async (newState) => {
+      // sip.js reports the rejecting response to onReject only after this transition.
+      if (newState === RegistererState.Unregistered) await Promise.resolve();
+      const error =
+        newState === RegistererState.Unregistered
+          ? this.#registrationError
+          : undefined;
+      this.#registrationError = undefined;
+      this.#events.emit('connectionStateChange', {
+        type: 'RegistererState',
+        state: newState,
+        // Unregistering for `away` is not a failure.
+        isErrorState:
+          this.#availability !== 'away' &&
+          this.#reRegisterAttempts >= this.#maxRetryAttempts,
+        error,
+        reason: this.#networkReason,
+      });
+      switch (newState) {
+        case RegistererState.Unregistered:
+          if (
+            !this.#updatingAuth &&
+            this.#auth.isLoggedIn() &&
+            this.#reRegisterAttempts < this.#maxRetryAttempts
+          ) {
+            this.#reRegisterAttempts++;
+            await this.reRegister();
+          }
+          break;
+        case RegistererState.Registered:
+          logger.info('SIP Registration Successful');
+          this.#reRegisterAttempts = 0;
+          this.#networkReason = undefined;
+          break;
+      }
+    });
+    return registerer;
+  }
+
+  /**
+   * REGISTER renewals reuse the `token:` header, so fetch a new SIP token before it
+   * expires and push it to the registrar straight away.
+   */
+  #scheduleSipTokenRefresh(delay?: number): void {
+    this.#cancelSipTokenRefresh();
+    const expiry = getTokenExpiry(this.#auth.getSipToken);
+    if (!expiry || this.#isStopped) return;
+
+    const due =
+      delay ?? Math.max(0, expiry - Date.now() - TOKEN_REFRESH_MARGIN);
+    this.#sipTokenTimer = setTimeout(
+      async () => {
+        this.#sipTokenTimer = null;
+        if (this.#isStopped) return;
+        if (expiry - Date.now() > TOKEN_REFRESH_MARGIN) {
+          this.#scheduleSipTokenRefresh();
+          return;
+        }
         try {
-            await this.unregister();
+          await this.#updateToken();
+          logger.info('SIP token refreshed.');
+          if (this.#registerer?.state === RegistererState.Registered) {
+            await this.#registerer.register({
+              requestOptions: {
+                extraHeaders: [`token: ${this.#auth.getSipToken}`],
+              },
+            });
+          }
+          this.#scheduleSipTokenRefresh();
         } catch (e) {
-            console.warn(e);
+          logger.warn(
+            `SIP token refresh failed. Retrying in ${TOKEN_REFRESH_RETRY_DELAY}ms.`,
+            e
+          );
+          this.#scheduleSipTokenRefresh(TOKEN_REFRESH_RETRY_DELAY);
         }
-        const token = this.#auth.getSipToken;
-        if (token && isTokenValid(token) !== true) await this.#updateToken();
-        this.#registerer = null;
-        await this.startRegistration();
+      },
+      Math.min(due, MAX_TIMER_DELAY)
+    );
+  }
+
+  #cancelSipTokenRefresh(): void {
+    if (this.#sipTokenTimer) clearTimeout(this.#sipTokenTimer);
+    this.#sipTokenTimer = null;
+  }
+
+  async reRegister() {
+    // unregister() maxes the counter so its own state change is not retried; keep ours.
+    const attempts = this.#reRegisterAttempts;
+    try {
+      await this.unregister();
+    } catch (e) {
+      logger.warn('Unregister before re-register failed.', e);
     }
+    this.#reRegisterAttempts = attempts;
+    const token = this.#auth.getSipToken;
+    if (token && isTokenValid(token) !== true) await this.#updateToken();
+    await this.startRegistration();
+  }
 
-    async #updateToken() {
-        this.#updatingAuth = true;
-        await this.#auth.registerSoftphone();
-        this.#updatingAuth = false;
+  async #updateToken() {
+    this.#updatingAuth = true;
+    try {
+      await this.#auth.registerSoftphone();
+    } finally {
+      this.#updatingAuth = false;
     }
+  }
 
-    async unregister() {
-        this.#reRegisterAttempts = 3;
-        if (this.#registerer) await this.#registerer.unregister({ all: true });
+  async unregister() {
+    this.#reRegisterAttempts = this.#maxRetryAttempts;
+    if (this.#registerer) await this.#registerer.unregister({ all: true });
+  }
+
+  /**
+   * `away` unregisters so the edge stops routing calls here; leaving it registers again.
+   * The auto-reject rules decline whatever still arrives while not `available`.
+   */
+  public async setAvailability(availability: Availability): Promise<void> {
+    const previous = this.#availability;
+    this.#availability = availability;
+    try {
+      if (availability === 'away' && previous !== 'away') {
+        await this.unregister();
+      } else if (
+        previous === 'away' &&
+        availability !== 'away' &&
+        this.isConnected()
+      ) {
+        // unregister() maxed the counter when going away; this is a fresh registration.
+        this.#reRegisterAttempts = 0;
+        await this.startRegistration();
+      }
+    } catch (e) {
+      logger.warn(
+        `Failed to update registration for availability '${availability}'.`,
+        e
+      );
     }
+  }
+
+  async stopUA() {
+    this.#reRegisterAttempts = this.#maxRetryAttempts;
+    this.#isStopped = true;
+    this.#cancelReconnect();
+    this.#cancelSipTokenRefresh();
+    this.#sessions.forEach((session) => session.markLocalHangup());
+    await this.stop();
+  }
+
+  async makeCall(candidateNumber: any, options: any) {
+    try {
+      if (this.#sessions.size >= this.#maxConcurrentCalls) {
+        throw new CallLimitException(
+          'UserAgent.makeCall',
+          this.#maxConcurrentCalls
+        );
+      }
+
+      const candidate = UserAgent.makeURI(
+        'sip:' + candidateNumber + '@' + this.#server
+      );
+      if (!candidate) throw new Error('Invalid candidate URI');
 
-    async stopUA() {
-        this.#reRegisterAttempts = 3;
-        await this.stop();
+      const metadata = options.metadata ?? {};
+      const inviter = new Inviter(this, candidate, {
+        sessionDescriptionHandlerOptions: {
+          constraints: { audio: true, video: false },
+        },
+        // Applies the SDP of a 18x so ringback and announcements are heard. Assumes the edge does not fork.
+        earlyMedia: this.#earlyMedia,
+        extraHeaders: [
+          `token: ${this.#auth.getSipToken}`,
+          `X-Transaction-Id: ${metadata.transactionId ?? ''}`,
+          `X-Job-Id: ${metadata.jobId ?? ''}`,
+          `X-Reference-Id: ${metadata.candidateId ?? ''}`,
+        ],
+      });
+
+      const session = new Session(inviter, SessionType, this, this.#events);
+      this.#sessions.set(session.id, session);
+      session.remoteContact = candidateNumber;
+      session.metadata = { ...metadata };
+      session.virtualNumber = options.virtualNumber;
+
+      this.#events.emit('callCreated', SessionType.Outgoing, session, {
+        candidate: candidateNumber,
+      });
+
+      await session.dial();
+      return true;
+    } catch (err) {
+      if (err instanceof BaseException) throw err;
+      logger.error('Error in UserAgent.makeCall', err);
+      return false;
     }
+  }
 
-    async makeCall(candidateNumber: any, options: any) {
-        try {
-            const candidate = UserAgent.makeURI("sip:" + candidateNumber + "@" + this.#server);
-            if (!candidate) throw new Error("Invalid candidate URI");
-
-            const metadata = options.metadata ?? {};
-            const inviter = new Inviter(this, candidate, {
-                sessionDescriptionHandlerOptions: {
-                    constraints: { audio: true, video: false },
-                },
-                extraHeaders: [
-                    `token: ${this.#auth.getSipToken}`,
-                    `X-Transaction-Id: ${metadata.transactionId ?? ""}`,
-                    `X-Job-Id: ${metadata.jobId ?? ""}`,
-                    `X-Reference-Id: ${metadata.candidateId ?? ""}`,
-                ]
-            });
+  /**
+   * Returns every call that has not yet terminated, oldest first.
+   */
+  public getSessions(): Session[] {
+    return [...this.#sessions.values()];
+  }
 
-            this.#session = new Session(inviter, SessionType, this, this.#listeners);
-            this.#session.remoteContact = candidateNumber;
+  public getSession(id: string): Session | null {
+    return this.#sessions.get(id) ?? null;
+  }
 
-            if (this.#listeners.onCallCreated) {
-                // @ts-ignore
-                this.#listeners.onCallCreated(SessionType.Outgoing, this.#session, { candidate: candidateNumber });
-            }
+  /**
+   * The established call the agent is talking on: the newest one not on hold,
+   * otherwise the newest established one.
+   */
+  public getActiveSession(): Session | null {
+    const established = this.getSessions()
+      .filter((s) => s.state === SessionState.Established)
+      .reverse();
+    return established.find((s) => !s.isOnHold) ?? established[0] ?? null;
+  }
 
-            await inviter.invite();
-            return true;
-        } catch (err) {
-            if (err instanceof InvalidValueException || err instanceof UnknownException) throw err;
-            console.error('Error in UserAgent.makeCall', err);
-            return false;
-        }
+  /**
+   * Puts every established call other than `current` on hold.
+   */
+  public async holdOtherSessions(current: Session): Promise<void> {
+    for (const session of this.#sessions.values()) {
+      if (
+        session === current ||
+        session.state !== SessionState.Established ||
+        session.isOnHold
+      )
+        continue;
+      try {
+        await session.hold();
+      } catch (e) {
+        logger.warn('Failed to hold existing call.', e);
+      }
     }
+  }
 
-    public clearSession(): void { this.#session = null; }
+  public clearSession(session: Session): void {
+    this.#sessions.delete(session.id);
+  }
 }
 
-export default UserAgent;
\ No newline at end of file
+export default UserAgent;
@@ -1,55 +1,397 @@
-class BaseException extends Error {
-    source: string;
-    details?: string;
-    constructor(name: string, source: string, message?: string) {
-        super(message);
-        this.name = name;
-        this.source = source;
+export const ErrorCode = {
+  MissingParameter: 'MISSING_PARAMETER',
+  InvalidValue: 'INVALID_VALUE',
+  Unauthorized: 'UNAUTHORIZED',
+  InvalidToken: 'INVALID_TOKEN',
+  TokenExpired: 'TOKEN_EXPIRED',
+  PermissionDenied: 'PERMISSION_DENIED',
+  InvalidLoginState: 'INVALID_LOGIN_STATE',
+  ServerError: 'SERVER_ERROR',
+  Network: 'NETWORK_ERROR',
+  Timeout: 'TIMEOUT',
+  Cancelled: 'CANCELLED',
+  Storage: 'STORAGE_ERROR',
+  SipRegistrationFailed: 'SIP_REGISTRATION_FAILED',
+  SipRequestFailed: 'SIP_REQUEST_FAILED',
+  MediaPermissionDenied: 'MEDIA_PERMISSION_DENIED',
+  MediaUnavailable: 'MEDIA_UNAVAILABLE',
+  InvalidCallState: 'INVALID_CALL_STATE',
+  CallLimitReached: 'CALL_LIMIT_REACHED',
+  Unknown: 'UNKNOWN',
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
+export interface ExceptionOptions {
+  retryable?: boolean;
+  httpStatus?: number;
+  sipStatus?: number;
+  cause?: unknown;
+}
+
+/** HTTP and SIP statuses that describe a transient condition worth retrying. */
+const isRetryableStatus = (status?: number): boolean => {
+  return (
+    status === 408 ||
+    status === 429 ||
+    status === 480 ||
+    status === 491 ||
+    (status !== undefined && status >= 500 && status < 600)
+  );
+};
+
+export class BaseException extends Error {
+  source: string;
+  details?: string;
+  code: ErrorCode;
+  retryable: boolean;
+  httpStatus?: number;
+  sipStatus?: number;
+  constructor(
+    name: string,
+    source: string,
+    message: string | undefined,
+    code: ErrorCode,
+    options: ExceptionOptions = {}
+  ) {
+    super(message);
+    this.name = name;
+    this.source = source;
+    this.code = code;
+    this.retryable = options.retryable ?? false;
+    this.httpStatus = options.httpStatus;
+    this.sipStatus = options.sipStatus;
+    if (options.cause !== undefined) this.cause = options.cause;
+  }
+
+  /**
+   * Plain-object form for telemetry. `details` is parsed back and `cause` is flattened.
+   */
+  toJSON(): Record<string, unknown> {
+    let details: unknown = this.details;
+    try {
+      if (this.details !== undefined) details = JSON.parse(this.details);
+    } catch {
+      // Leave non-JSON details as they are.
     }
+    const cause =
+      this.cause instanceof BaseException
+        ? this.cause.toJSON()
+        : this.cause instanceof Error
+          ? { name: this.cause.name, message: this.cause.message }
+          : this.cause;
+    return {
+      name: this.name,
+      code: this.code,
+      source: this.source,
+      message: this.message,
+      details,
+      retryable: this.retryable,
+      httpStatus: this.httpStatus,
+      sipStatus: this.sipStatus,
+      cause,
+    };
+  }
 }
 
 export class MissingParameterException extends BaseException {
-    constructor(source: string, paramList: string[]) {
-        super('MissingParameterException', source, `Missing required parameters.`);
-        this.details = JSON.stringify({ requiredParameters: [...paramList] });
-    }
+  constructor(source: string, paramList: string[]) {
+    super(
+      'MissingParameterException',
+      source,
+      `Missing required parameters.`,
+      ErrorCode.MissingParameter
+    );
+    this.details = JSON.stringify({ requiredParameters: [...paramList] });
+  }
 }
 
 export class InvalidValueException extends BaseException {
-    constructor(source: string, param: string, invalidValue: any, validValues?: any[]) {
-        super('InvalidValueException', source, `Invalid value provided for parameter '${param}'.`);
-        this.details = JSON.stringify({
-            invalidParameter: param,
-            invalidValue: invalidValue,
-            validValues: validValues,
-        });
-    }
+  constructor(
+    source: string,
+    param: string,
+    invalidValue: any,
+    validValues?: any[]
+  ) {
+    super(
+      'InvalidValueException',
+      source,
+      `Invalid value provided for parameter '${param}'.`,
+      ErrorCode.InvalidValue
+    );
+    this.details = JSON.stringify({
+      invalidParameter: param,
+      invalidValue: invalidValue,
+      validValues: validValues,
+    });
+  }
 }
 
 export class UnauthorizedException extends BaseException {
-    constructor(source: string, details: string) {
-        super('UnauthorizedException', source, `Authentication or permission error.`);
-        this.details = JSON.stringify(details);
-    }
+  constructor(source: string, details: string, options?: ExceptionOptions) {
+    super(
+      'UnauthorizedException',
+      source,
+      `Authentication or permission error.`,
+      ErrorCode.Unauthorized,
+      options
+    );
+    this.details = JSON.stringify(details);
+  }
 }
 
 export class InvalidTokenException extends BaseException {
-    constructor(source: string, details: 'INVALID' | 'EXPIRED') {
-        super('InvalidTokenException', source, `Token is ${details}.`);
-        this.details = JSON.stringify(`Token is ${details}`);
-    }
+  constructor(
+    source: string,
+    details: 'INVALID' | 'EXPIRED',
+    options?: ExceptionOptions
+  ) {
+    super(
+      'InvalidTokenException',
+      source,
+      `Token is ${details}.`,
+      details === 'EXPIRED' ? ErrorCode.TokenExpired : ErrorCode.InvalidToken,
+      { httpStatus: details === 'EXPIRED' ? 401 : undefined, ...options }
+    );
+    this.details = JSON.stringify(`Token is ${details}`);
+  }
 }
 
 export class PermissionDeniedException extends BaseException {
-    constructor(source: string, details: string) {
-        super('PermissionDeniedException', source, 'Permission denied.');
-        this.details = JSON.stringify(details);
-    }
+  constructor(source: string, details: string, options?: ExceptionOptions) {
+    super(
+      'PermissionDeniedException',
+      source,
+      'Permission denied.',
+      ErrorCode.PermissionDenied,
+      options
+    );
+    this.details = JSON.stringify(details);
+  }
+}
+
+/**
+ * The OAuth redirect does not belong to a pending `login()`: no attempt is pending (or it was
+ * already completed), the `state` does not match, or the attempt is too old.
+ */
+export class InvalidLoginStateException extends BaseException {
+  constructor(source: string, details: 'MISSING' | 'MISMATCH' | 'EXPIRED') {
+    super(
+      'InvalidLoginStateException',
+      source,
+      `Login state is ${details}.`,
+      ErrorCode.InvalidLoginState
+    );
+    this.details = JSON.stringify(`Login state is ${details}`);
+  }
+}
+
+/**
+ * The REST API answered with an unexpected status. Retryable for 408, 429 and 5xx.
+ */
+export class ServerException extends BaseException {
+  constructor(
+    source: string,
+    httpStatus: number,
+    details: string,
+    options?: ExceptionOptions
+  ) {
+    super(
+      'ServerException',
+      source,
+      `Server responded with status ${httpStatus}.`,
+      ErrorCode.ServerError,
+      {
+        retryable: isRetryableStatus(httpStatus),
+        httpStatus,
+        ...options,
+      }
+    );
+    this.details = JSON.stringify(details);
+  }
+}
+
+/**
+ * The request never got a response: offline, DNS failure, connection reset.
+ */
+export class NetworkException extends BaseException {
+  constructor(source: string, details: string, options?: ExceptionOptions) {
+    super(
+      'NetworkException',
+      source,
+      'A network error occurred.',
+      ErrorCode.Network,
+      { retryable: true, ...options }
+    );
+    this.details = JSON.stringify(details);
+  }
+}
+
+export class TimeoutException extends BaseException {
+  constructor(source: string, timeoutMs: number, options?: ExceptionOptions) {
+    super(
+      'TimeoutException',
+      source,
+      `Operation timed out after ${timeoutMs}ms.`,
+      ErrorCode.Timeout,
+      { retryable: true, ...options }
+    );
+    this.details = JSON.stringify({ timeoutMs });
+  }
+}
+
+/**
+ * The request was aborted because the SDK was logged out while it was in flight.
+ */
+export class RequestCancelledException extends BaseException {
+  constructor(source: string) {
+    super(
+      'RequestCancelledException',
+      source,
+      'Request was cancelled.',
+      ErrorCode.Cancelled
+    );
+  }
+}
+
+/**
+ * The token store could not read, write or remove the session. `details.operation` says which.
+ */
+export class StorageException extends BaseException {
+  constructor(
+    source: string,
+    operation: 'get' | 'save' | 'clear',
+    message: string,
+    options?: ExceptionOptions
+  ) {
+    super('StorageException', source, message, ErrorCode.Storage, options);
+    this.details = JSON.stringify({ operation });
+  }
+}
+
+export class SipRegistrationException extends BaseException {
+  constructor(
+    source: string,
+    sipStatus: number,
+    reasonPhrase?: string,
+    options?: ExceptionOptions
+  ) {
+    super(
+      'SipRegistrationException',
+      source,
+      `SIP registration failed with ${sipStatus}.`,
+      ErrorCode.SipRegistrationFailed,
+      {
+        retryable: isRetryableStatus(sipStatus),
+        sipStatus,
+        ...options,
+      }
+    );
+    this.details = JSON.stringify({ sipStatus, reasonPhrase });
+  }
+}
+
+/**
+ * An in-dialog request (re-INVITE, REFER, INFO) was rejected or could not be sent.
+ */
+export class SipRequestException extends BaseException {
+  constructor(
+    source: string,
+    method: string,
+    sipStatus?: number,
+    reasonPhrase?: string,
+    options?: ExceptionOptions
+  ) {
+    super(
+      'SipRequestException',
+      source,
+      sipStatus
+        ? `${method} rejected with ${sipStatus} ${reasonPhrase ?? ''}`.trim() +
+            '.'
+        : `${method} failed.`,
+      ErrorCode.SipRequestFailed,
+      { retryable: isRetryableStatus(sipStatus), sipStatus, ...options }
+    );
+    this.details = JSON.stringify({ method, sipStatus, reasonPhrase });
+  }
+}
+
+/**
+ * The microphone could not be opened. `code` tells a denied permission apart from missing or busy hardware.
+ */
+export class MediaException extends BaseException {
+  constructor(source: string, cause: unknown) {
+    const name = cause instanceof Error ? cause.name : undefined;
+    const denied =
+      name === 'NotAllowedError' ||
+      name === 'PermissionDeniedError' ||
+      name === 'SecurityError';
+    super(
+      'MediaException',
+      source,
+      denied ? 'Microphone permission denied.' : 'Microphone is unavailable.',
+      denied ? ErrorCode.MediaPermissionDenied : ErrorCode.MediaUnavailable,
+      { cause }
+    );
+    this.details = JSON.stringify(
+      cause instanceof Error ? cause.message : String(cause)
+    );
+  }
+
+  /** getUserMedia failures surface as DOMException-like errors with these names. */
+  static isMediaError(error: unknown): boolean {
+    return (
+      error instanceof Error &&
+      [
+        'NotAllowedError',
+        'PermissionDeniedError',
+        'SecurityError',
+        'NotFoundError',
+        'DevicesNotFoundError',
+        'NotReadableError',
+        'TrackStartError',
+        'OverconstrainedError',
+      ].includes(error.name)
+    );
+  }
+}
+
+/**
+ * The operation is not valid for the call's current state, e.g. hanging up a terminated session.
+ */
+export class InvalidCallStateException extends BaseException {
+  constructor(source: string, state: string, details: string) {
+    super(
+      'InvalidCallStateException',
+      source,
+      `Operation not allowed while the call is ${state}.`,
+      ErrorCode.InvalidCallState
+    );
+    this.details = JSON.stringify({ state, reason: details });
+  }
+}
+
+export class CallLimitException extends BaseException {
+  constructor(source: string, maxConcurrentCalls: number) {
+    super(
+      'CallLimitException',
+      source,
+      `Maximum of ${maxConcurrentCalls} concurrent calls reached.`,
+      ErrorCode.CallLimitReached
+    );
+    this.details = JSON.stringify({ maxConcurrentCalls });
+  }
 }
 
 export class UnknownException extends BaseException {
-    constructor(source: string, details: string) {
-        super('UnknownException', source, 'An unknown error occurred.');
-        this.details = JSON.stringify(details);
-    }
-}
\ No newline at end of file
+  constructor(source: string, details: string, options?: ExceptionOptions) {
+    super(
+      'UnknownException',
+      source,
+      'An unknown error occurred.',
+      ErrorCode.Unknown,
+      options
+    );
+    this.details = JSON.stringify(details);
+  }
+}
@@ -0,0 +1,260 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+  type ReactNode,
+} from 'react';
+import type Softphone from '../core/Softphone';
+import type { Session } from '../core/Session';
+import type { VirtualNumber } from '../core/Auth';
+import type {
+  Availability,
+  ConnectionStateEvent,
+  SoftphoneEvents,
+} from '../types';
+
+export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected';
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  /** The most recent `connectionStateChange` event, if any was seen since mounting. */
+  lastEvent: ConnectionStateEvent | null;
+  /** Current automatic reconnection attempt, or null when not reconnecting. */
+  reconnectAttempt: number | null;
+}
+
+export interface SoftphoneContextValue {
+  softphone: Softphone | null;
+  /** Swap the instance after login, or clear it after logout. */
+  setSoftphone: (softphone: Softphone | null) => void;
+}
+
+const SoftphoneContext = createContext<SoftphoneContextValue | null>(null);
+
+// Session events that can change which call is in focus or what it shows.
+const CALL_EVENTS: Array<keyof SoftphoneEvents> = [
+  'callCreated',
+  'callStateChange',
+  'callHangup',
+  'callHold',
+  'callResumed',
+  'muteChange',
+];
+
+export interface SoftphoneProviderProps {
+  /** Initial instance, e.g. the one restored by `Softphone.initialize`. Changing it replaces the current one. */
+  softphone?: Softphone | null;
+  children?: ReactNode;
+}
+
+/**
+ * Makes a `Softphone` instance available to the hooks below.
+ */
+export const SoftphoneProvider = ({
+  softphone: initialSoftphone = null,
+  children,
+}: SoftphoneProviderProps) => {
+  const [softphone, setSoftphone] = useState<Softphone | null>(
+    initialSoftphone
+  );
+  useEffect(() => {
+    setSoftphone(initialSoftphone);
+  }, [initialSoftphone]);
+
+  const value = useMemo(() => ({ softphone, setSoftphone }), [softphone]);
+  return (
+    <SoftphoneContext.Provider value={value}>
+      {children}
+    </SoftphoneContext.Provider>
+  );
+};
+
+export const useSoftphone = (): SoftphoneContextValue => {
+  const context = useContext(SoftphoneContext);
+  if (!context)
+    throw new Error('useSoftphone must be used inside a SoftphoneProvider.');
+  return context;
+};
+
+/**
+ * Subscribes to an SDK event for the lifetime of the component. The latest `handler` is
+ * always called, so it may close over state without being listed as a dependency.
+ */
+export const useSoftphoneEvent = <E extends keyof SoftphoneEvents>(
+  event: E,
+  handler: SoftphoneEvents[E]
+): void => {
+  const { softphone } = useSoftphone();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!softphone) return undefined;
+    const forward = (...args: unknown[]) =>
+      (handlerRef.current as (...params: unknown[]) => void)(...args);
+    return softphone.on(event, forward as SoftphoneEvents[E]);
+  }, [softphone, event]);
+};
+
+const toStatus = (event: ConnectionStateEvent): ConnectionStatus => {
+  if (event.type === 'RegistererState') {
+    if (event.state === 'Registered') return 'connected';
+    return event.state === 'Initial' ? 'connecting' : 'disconnected';
+  }
+  // Transport is up but the REGISTER is still in flight.
+  return event.state === 'Connected' ? 'connecting' : 'disconnected';
+};
+
+export const useConnectionState = (): ConnectionState => {
+  const { softphone } = useSoftphone();
+  const [state, setState] = useState<ConnectionState>(() => ({
+    status: softphone?.isRegistered() ? 'connected' : 'disconnected',
+    lastEvent: null,
+    reconnectAttempt: null,
+  }));
+
+  useEffect(() => {
+    setState({
+      status: softphone?.isRegistered() ? 'connected' : 'disconnected',
+      lastEvent: null,
+      reconnectAttempt: null,
+    });
+    if (!softphone) return undefined;
+
+    const subscriptions = [
+      softphone.on('connectionStateChange', (event) => {
+        const status = toStatus(event);
+        setState((previous) => ({
+          status,
+          lastEvent: event,
+          reconnectAttempt:
+            status === 'connected' ? null : previous.reconnectAttempt,
+        }));
+      }),
+      softphone.on('reconnecting', (attempt) => {
+        setState((previous) => ({
+          ...previous,
+          status: 'connecting',
+          reconnectAttempt: attempt,
+        }));
+      }),
+      softphone.on('reconnectFailed', () => {
+        setState((previous) => ({
+          ...previous,
+          status: 'disconnected',
+          reconnectAttempt: null,
+        }));
+      }),
+    ];
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }, [softphone]);
+
+  return state;
+};
+
+/**
+ * The call in focus: the established call that is not on hold, otherwise the newest
+ * call still in progress. Re-renders on every call state, hold and mute change.
+ */
+export const useActiveCall = (): Session | null => {
+  const { softphone } = useSoftphone();
+  const [, rerender] = useReducer((count: number) => count + 1, 0);
+
+  useEffect(() => {
+    if (!softphone) return undefined;
+    const subscriptions = CALL_EVENTS.map((event) =>
+      softphone.on(event, rerender as () => void)
+    );
+    return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+  }, [softphone]);
+
+  const session = softphone
+    ? (softphone.getActiveSession() ?? softphone.getSessions().at(-1) ?? null)
+    : null;
+
+  useEffect(() => {
+    if (!session) return undefined;
+    return session.on('stateChange', rerender as () => void);
+  }, [session]);
+
+  return session;
+};
+
+/**
+ * Seconds since `session` was answered, updated every second until it ends. 0 before answer.
+ */
+export const useCallTimer = (session: Session | null | undefined): number => {
+  const [now, setNow] = useState(() => Date.now());
+  const ended = session?.endedAt !== undefined;
+
+  useEffect(() => {
+    if (!session) return undefined;
+    setNow(Date.now());
+    const unsubscribe = session.on('stateChange', () => setNow(Date.now()));
+    const timer = ended ? null : setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      unsubscribe();
+      if (timer) clearInterval(timer);
+    };
+  }, [session, ended]);
+
+  if (!session?.answeredAt) return 0;
+  return Math.max(
+    0,
+    Math.floor(((session.endedAt ?? now) - session.answeredAt) / 1000)
+  );
+};
+
+/**
+ * The agent's availability, updated on every `availabilityChange`.
+ */
+export const useAvailability = (): Availability => {
+  const { softphone } = useSoftphone();
+  const [availability, setAvailability] = useState<Availability>(
+    () => softphone?.getAvailability() ?? 'available'
+  );
+
+  useEffect(() => {
+    setAvailability(softphone?.getAvailability() ?? 'available');
+    if (!softphone) return undefined;
+    return softphone.on('availabilityChange', (next) => setAvailability(next));
+  }, [softphone]);
+
+  return availability;
+};
+
+const readVirtualNumbers = (softphone: Softphone | null): VirtualNumber[] => {
+  return softphone?.isLoggedIn() ? softphone.getVirtualNumbers() : [];
+};
+
+/**
+ * Virtual numbers of the signed-in user. Empty until `start()` has loaded the profile.
+ */
+export const useVirtualNumbers = (): {
+  virtualNumbers: VirtualNumber[];
+  defaultVirtualNumber: VirtualNumber | null;
+} => {
+  const { softphone } = useSoftphone();
+  const [virtualNumbers, setVirtualNumbers] = useState<VirtualNumber[]>(() =>
+    readVirtualNumbers(softphone)
+  );
+
+  useEffect(() => {
+    setVirtualNumbers(readVirtualNumbers(softphone));
+    if (!softphone) return undefined;
+    // The profile is fetched by start(), right before the transport connects.
+    return softphone.on('connectionStateChange', () =>
+      setVirtualNumbers(readVirtualNumbers(softphone))
+    );
+  }, [softphone]);
+
+  const defaultVirtualNumber =
+    virtualNumbers.find((vn) => vn.default_calling_number) ??
+    virtualNumbers[0] ??
+    null;
+  return { virtualNumbers, defaultVirtualNumber };
+};
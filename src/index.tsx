@@ -1,10 +1,91 @@
 import Softphone from './core/Softphone';
 import * as Exceptions from './exceptions';
+import { EncryptedTokenStore, InMemoryTokenStore } from './services/TokenStore';
+import {
+  SoftphoneProvider,
+  useActiveCall,
+  useAvailability,
+  useCallTimer,
+  useConnectionState,
+  useSoftphone,
+  useSoftphoneEvent,
+  useVirtualNumbers,
+} from './hooks';
 import { registerGlobals } from 'react-native-webrtc';
 
+export type {
+  AutoRejectedCall,
+  AutoRejectOptions,
+  AutoRejectRule,
+  Availability,
+  CallDetails,
+  CallEndReason,
+  CallHistoryOptions,
+  CallHistoryQuery,
+  CallMetadata,
+  CallOutcome,
+  CallProgress,
+  CallQualitySnapshot,
+  CallQualitySummary,
+  CallRecord,
+  CallState,
+  CallStateTransition,
+  CodeExchanger,
+  CodeExchangeRequest,
+  ConnectionChangeReason,
+  ConnectionStateEvent,
+  DtmfMethod,
+  DtmfOptions,
+  HoldOrigin,
+  Listeners,
+  LogCategory,
+  Logger,
+  LoggingOptions,
+  LogLevel,
+  NetworkMonitor,
+  NetworkState,
+  PendingLogin,
+  QualityLevel,
+  QualityMonitorOptions,
+  QualityThresholds,
+  ReconnectionPolicy,
+  RejectOptions,
+  RejectStatusCode,
+  SessionEvents,
+  SipReasonHeader,
+  SoftphoneConfig,
+  SoftphoneEvents,
+  StartOptions,
+  TokenPayload,
+  TokenProvider,
+  TokenSet,
+  TokenStore,
+  TransferProgress,
+  TransferStatus,
+} from './types';
+
+export type { VirtualNumber } from './core/Auth';
+export type { AnswerOptions, Session } from './core/Session';
+export type {
+  ConnectionState,
+  ConnectionStatus,
+  SoftphoneContextValue,
+  SoftphoneProviderProps,
+} from './hooks';
+
 registerGlobals();
 
 export {
   Softphone,
-  Exceptions
-};
\ No newline at end of file
+  Exceptions,
+  EncryptedTokenStore,
+  InMemoryTokenStore,
+  SoftphoneProvider,
+  useSoftphone,
+  useSoftphoneEvent,
+  useConnectionState,
+  useActiveCall,
+  useCallTimer,
+  useVirtualNumbers,
+  useAvailability,
+};
@@ -0,0 +1,187 @@
+import {
+  API_MAX_RETRIES,
+  API_RETRY_DELAY,
+  API_TIMEOUT,
+  BASE_URL,
+} from '../constants';
+import {
+  BaseException,
+  InvalidTokenException,
+  NetworkException,
+  RequestCancelledException,
+  ServerException,
+  TimeoutException,
+  UnknownException,
+} from '../exceptions';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ApiClient');
+
+export type FetchFunction = (
+  input: string,
+  init?: RequestInit
+) => Promise<Response>;
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  /** Replaces the global `fetch`, e.g. to talk to a local stand-in server in tests. */
+  fetch?: FetchFunction;
+  timeoutMs?: number;
+  /** Extra attempts for GET requests that fail with a network error, timeout or 5xx. */
+  maxRetries?: number;
+}
+
+export interface ApiRequest {
+  method?: 'GET' | 'POST' | 'PATCH';
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Serialized as JSON. */
+  body?: unknown;
+  timeoutMs?: number;
+  /** Overrides `maxRetries`; set to 0 for GETs that must not be repeated. */
+  retries?: number;
+  /** Aborts this request (and any pending retry); it rejects with `RequestCancelledException`. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Single entry point for REST calls. Every request has a timeout, can be aborted
+ * with `abortAll()`, and fails with an SDK exception rather than a raw `Response`.
+ */
+export class ApiClient {
+  #baseUrl: string;
+  #fetch: FetchFunction;
+  #timeoutMs: number;
+  #maxRetries: number;
+  #controllers = new Set<AbortController>();
+  // Bumped by abortAll() so requests waiting out a retry delay give up too.
+  #generation = 0;
+
+  constructor(options: ApiClientOptions = {}) {
+    this.#baseUrl = options.baseUrl ?? BASE_URL;
+    this.#fetch = options.fetch ?? ((input, init) => fetch(input, init));
+    this.#timeoutMs = options.timeoutMs ?? API_TIMEOUT;
+    this.#maxRetries = options.maxRetries ?? API_MAX_RETRIES;
+  }
+
+  get baseUrl() {
+    return this.#baseUrl;
+  }
+
+  /**
+   * Sends a request to `path` (relative to the base URL) and resolves to the parsed JSON body.
+   * A 401 becomes `InvalidTokenException('EXPIRED')`; any other non-2xx a `ServerException`.
+   */
+  public async request<T = any>(
+    source: string,
+    path: string,
+    request: ApiRequest = {}
+  ): Promise<T> {
+    const method = request.method ?? 'GET';
+    const retries =
+      method === 'GET' ? (request.retries ?? this.#maxRetries) : 0;
+    const generation = this.#generation;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.#send<T>(source, path, method, request);
+      } catch (error) {
+        const retryable = error instanceof BaseException && error.retryable;
+        if (!retryable || attempt >= retries) throw error;
+
+        const delay = API_RETRY_DELAY * Math.pow(2, attempt);
+        logger.warn(
+          `${method} ${path} failed (${(error as BaseException).code}). Retrying in ${delay}ms.`
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (generation !== this.#generation || request.signal?.aborted)
+          throw new RequestCancelledException(source);
+      }
+    }
+  }
+
+  /**
+   * Aborts every in-flight request; they reject with `RequestCancelledException`.
+   */
+  public abortAll(): void {
+    this.#generation++;
+    this.#controllers.forEach((controller) => controller.abort());
+    this.#controllers.clear();
+  }
+
+  async #send<T>(
+    source: string,
+    path: string,
+    method: string,
+    request: ApiRequest
+  ): Promise<T> {
+    const query = request.query
+      ? `?${new URLSearchParams(request.query).toString()}`
+      : '';
+    const url = `${this.#baseUrl}${path}${query}`;
+    const timeoutMs = request.timeoutMs ?? this.#timeoutMs;
+    if (request.signal?.aborted) throw new RequestCancelledException(source);
+
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    request.signal?.addEventListener('abort', abort);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    this.#controllers.add(controller);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await this.#fetch(url, {
+        method,
+        headers:
+          request.body !== undefined
+            ? { 'Content-Type': 'application/json', ...request.headers }
+            : request.headers,
+        body:
+          request.body !== undefined ? JSON.stringify(request.body) : undefined,
+        signal: controller.signal,
+      });
+      text = await response.text();
+    } catch (error) {
+      if (timedOut)
+        throw new TimeoutException(source, timeoutMs, { cause: error });
+      if (controller.signal.aborted)
+        throw new RequestCancelledException(source);
+      throw new NetworkException(
+        source,
+        error instanceof Error ? error.message : String(error),
+        { cause: error }
+      );
+    } finally {
+      clearTimeout(timer);
+      this.#controllers.delete(controller);
+      request.signal?.removeEventListener('abort', abort);
+    }
+
+    let data: any = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch (error) {
+      if (response.ok)
+        throw new UnknownException(source, 'Response is not valid JSON.', {
+          httpStatus: response.status,
+          cause: error,
+        });
+    }
+
+    logger.debug(`${method} ${path} -> ${response.status}`);
+    if (response.status === 401)
+      throw new InvalidTokenException(source, 'EXPIRED');
+    if (!response.ok)
+      throw new ServerException(
+        source,
+        response.status,
+        data?.message || response.statusText
+      );
+    return data as T;
+  }
+}
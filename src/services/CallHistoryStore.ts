@@ -0,0 +1,92 @@
+import EncryptedStorage from 'react-native-encrypted-storage';
+import {
+  CALL_HISTORY_MAX_AGE_DAYS,
+  CALL_HISTORY_MAX_RECORDS,
+} from '../constants';
+import type { CallHistoryOptions, CallRecord } from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('CallHistoryStore');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Call logs are kept per `key`, so accounts signed in side by side keep separate histories.
+ */
+export class CallHistoryStore {
+  // Read-modify-write cycles are serialized so two calls ending together do not drop a record.
+  static #queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Returns all stored records, newest first, including writes still queued when it was called.
+   */
+  public static getAll(key: string): Promise<CallRecord[]> {
+    return this.#serialize(() => this.#read(key));
+  }
+
+  public static add(
+    key: string,
+    record: CallRecord,
+    options: CallHistoryOptions = {}
+  ): Promise<void> {
+    return this.#update(key, (records) => {
+      const maxRecords = options.maxRecords ?? CALL_HISTORY_MAX_RECORDS;
+      const oldest =
+        Date.now() - (options.maxAgeDays ?? CALL_HISTORY_MAX_AGE_DAYS) * DAY_MS;
+      return [record, ...records.filter((r) => r.id !== record.id)]
+        .filter((r) => r.createdAt >= oldest)
+        .slice(0, maxRecords);
+    });
+  }
+
+  public static async remove(key: string, id: string): Promise<boolean> {
+    let removed = false;
+    await this.#update(key, (records) => {
+      const remaining = records.filter((r) => r.id !== id);
+      removed = remaining.length !== records.length;
+      return remaining;
+    });
+    return removed;
+  }
+
+  public static clear(key: string): Promise<void> {
+    return this.#serialize(async () => {
+      try {
+        await EncryptedStorage.removeItem(key);
+        logger.info('Call history cleared.');
+      } catch (error) {
+        logger.error('Failed to clear call history.', error);
+      }
+    });
+  }
+
+  static async #read(key: string): Promise<CallRecord[]> {
+    try {
+      const jsonString = await EncryptedStorage.getItem(key);
+      return jsonString ? (JSON.parse(jsonString) as CallRecord[]) : [];
+    } catch (error) {
+      logger.error('Failed to retrieve call history.', error);
+      return [];
+    }
+  }
+
+  static #update(
+    key: string,
+    change: (records: CallRecord[]) => CallRecord[]
+  ): Promise<void> {
+    return this.#serialize(async () => {
+      try {
+        const records = change(await this.#read(key));
+        await EncryptedStorage.setItem(key, JSON.stringify(records));
+      } catch (error) {
+        logger.error('Failed to save call history.', error);
+      }
+    });
+  }
+
+  static #serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.#queue.then(task);
+    this.#queue = run.catch(() => undefined);
+    return run;
+  }
+}
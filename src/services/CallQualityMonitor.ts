@@ -0,0 +1,222 @@
+import {
+  QUALITY_FAIR_MOS,
+  QUALITY_GOOD_MOS,
+  QUALITY_SAMPLE_INTERVAL,
+} from '../constants';
+import type {
+  CallQualitySnapshot,
+  CallQualitySummary,
+  QualityLevel,
+  QualityMonitorOptions,
+} from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('CallQualityMonitor');
+
+interface StatsSource {
+  getStats(): Promise<any>;
+}
+
+interface RawCounters {
+  timestamp: number;
+  packetsLost: number;
+  packetsReceived: number;
+  bytesReceived: number;
+  bytesSent: number;
+  jitter: number;
+  rtt: number;
+}
+
+const LEVEL_RANK: Record<QualityLevel, number> = { good: 0, fair: 1, poor: 2 };
+
+/**
+ * Estimates MOS from network metrics using the simplified ITU-T G.107 E-model.
+ * Latency and jitter are in milliseconds, packet loss in percent.
+ */
+export const estimateMos = (
+  rtt: number,
+  jitter: number,
+  packetLoss: number
+): number => {
+  const effectiveLatency = rtt / 2 + jitter * 2 + 10;
+  let r =
+    effectiveLatency < 160
+      ? 93.2 - effectiveLatency / 40
+      : 93.2 - (effectiveLatency - 120) / 10;
+  r -= packetLoss * 2.5;
+  r = Math.min(100, Math.max(0, r));
+  const mos = 1 + 0.035 * r + 0.000007 * r * (r - 60) * (100 - r);
+  return Math.round(Math.min(4.5, Math.max(1, mos)) * 100) / 100;
+};
+
+/**
+ * Periodically samples RTCPeerConnection.getStats() for a call and reports
+ * whenever the quality level changes.
+ */
+export class CallQualityMonitor {
+  #getSource: () => StatsSource | undefined;
+  #onLevelChange: (
+    snapshot: CallQualitySnapshot,
+    previousLevel: QualityLevel | null
+  ) => void;
+  #intervalMs: number;
+  #goodMos: number;
+  #fairMos: number;
+  #timer: ReturnType<typeof setInterval> | null = null;
+  #previous: RawCounters | null = null;
+  #snapshot: CallQualitySnapshot | null = null;
+  #history: CallQualitySnapshot[] = [];
+
+  constructor(
+    getSource: () => StatsSource | undefined,
+    onLevelChange: (
+      snapshot: CallQualitySnapshot,
+      previousLevel: QualityLevel | null
+    ) => void,
+    options: QualityMonitorOptions = {}
+  ) {
+    this.#getSource = getSource;
+    this.#onLevelChange = onLevelChange;
+    this.#intervalMs = options.intervalMs ?? QUALITY_SAMPLE_INTERVAL;
+    this.#goodMos = options.thresholds?.goodMos ?? QUALITY_GOOD_MOS;
+    this.#fairMos = options.thresholds?.fairMos ?? QUALITY_FAIR_MOS;
+  }
+
+  get snapshot(): CallQualitySnapshot | null {
+    return this.#snapshot;
+  }
+
+  public start(): void {
+    if (this.#timer) return;
+    this.#timer = setInterval(() => {
+      this.sample().catch((e) => logger.warn('Failed to sample stats.', e));
+    }, this.#intervalMs);
+  }
+
+  public stop(): void {
+    if (this.#timer) clearInterval(this.#timer);
+    this.#timer = null;
+  }
+
+  public async sample(): Promise<CallQualitySnapshot | null> {
+    const source = this.#getSource();
+    if (!source) return null;
+
+    const counters = CallQualityMonitor.#readCounters(await source.getStats());
+    const previous = this.#previous;
+    this.#previous = counters;
+    if (!previous) return null;
+
+    const elapsed = (counters.timestamp - previous.timestamp) / 1000;
+    if (elapsed <= 0) return null;
+
+    const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+    const received = Math.max(
+      0,
+      counters.packetsReceived - previous.packetsReceived
+    );
+    const packetLoss =
+      lost + received > 0 ? (lost / (lost + received)) * 100 : 0;
+    const mos = estimateMos(counters.rtt, counters.jitter, packetLoss);
+
+    const snapshot: CallQualitySnapshot = {
+      timestamp: counters.timestamp,
+      packetLoss: Math.round(packetLoss * 100) / 100,
+      jitter: counters.jitter,
+      rtt: counters.rtt,
+      inboundBitrate:
+        Math.round(
+          ((counters.bytesReceived - previous.bytesReceived) * 8) / elapsed / 10
+        ) / 100,
+      outboundBitrate:
+        Math.round(
+          ((counters.bytesSent - previous.bytesSent) * 8) / elapsed / 10
+        ) / 100,
+      mos,
+      level: this.#classify(mos),
+    };
+
+    const previousLevel = this.#snapshot?.level ?? null;
+    this.#snapshot = snapshot;
+    this.#history.push(snapshot);
+    if (snapshot.level !== previousLevel)
+      this.#onLevelChange(snapshot, previousLevel);
+    return snapshot;
+  }
+
+  public getSummary(): CallQualitySummary | null {
+    const samples = this.#history.length;
+    if (!samples) return null;
+
+    const average = (pick: (s: CallQualitySnapshot) => number) =>
+      Math.round(
+        (this.#history.reduce((sum, s) => sum + pick(s), 0) / samples) * 100
+      ) / 100;
+
+    return {
+      samples,
+      averageMos: average((s) => s.mos),
+      minMos: Math.min(...this.#history.map((s) => s.mos)),
+      averagePacketLoss: average((s) => s.packetLoss),
+      maxPacketLoss: Math.max(...this.#history.map((s) => s.packetLoss)),
+      averageJitter: average((s) => s.jitter),
+      averageRtt: average((s) => s.rtt),
+      worstLevel: this.#history.reduce<QualityLevel>(
+        (worst, s) =>
+          LEVEL_RANK[s.level] > LEVEL_RANK[worst] ? s.level : worst,
+        'good'
+      ),
+    };
+  }
+
+  #classify(mos: number): QualityLevel {
+    if (mos >= this.#goodMos) return 'good';
+    if (mos >= this.#fairMos) return 'fair';
+    return 'poor';
+  }
+
+  static #readCounters(report: any): RawCounters {
+    const counters: RawCounters = {
+      timestamp: Date.now(),
+      packetsLost: 0,
+      packetsReceived: 0,
+      bytesReceived: 0,
+      bytesSent: 0,
+      jitter: 0,
+      rtt: 0,
+    };
+    let remoteRtt: number | undefined;
+
+    report.forEach((stat: any) => {
+      if (stat.kind && stat.kind !== 'audio') return;
+      switch (stat.type) {
+        case 'inbound-rtp':
+          counters.packetsLost += stat.packetsLost ?? 0;
+          counters.packetsReceived += stat.packetsReceived ?? 0;
+          counters.bytesReceived += stat.bytesReceived ?? 0;
+          counters.jitter = Math.max(
+            counters.jitter,
+            (stat.jitter ?? 0) * 1000
+          );
+          break;
+        case 'outbound-rtp':
+          counters.bytesSent += stat.bytesSent ?? 0;
+          break;
+        case 'remote-inbound-rtp':
+          if (typeof stat.roundTripTime === 'number')
+            remoteRtt = stat.roundTripTime * 1000;
+          break;
+        case 'candidate-pair':
+          if (stat.nominated && typeof stat.currentRoundTripTime === 'number') {
+            counters.rtt = stat.currentRoundTripTime * 1000;
+          }
+          break;
+      }
+    });
+
+    if (remoteRtt !== undefined) counters.rtt = remoteRtt;
+    counters.jitter = Math.round(counters.jitter * 100) / 100;
+    counters.rtt = Math.round(counters.rtt * 100) / 100;
+    return counters;
+  }
+}
@@ -0,0 +1,21 @@
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo';
+import type { NetworkMonitor, NetworkState } from '../types';
+
+const toNetworkState = (state: NetInfoState): NetworkState => ({
+  // `isInternetReachable` is null until NetInfo has probed; trust `isConnected` until then.
+  isConnected: !!state.isConnected && state.isInternetReachable !== false,
+  type: state.type,
+});
+
+/**
+ * Default network monitor backed by @react-native-community/netinfo.
+ */
+export class NetInfoNetworkMonitor implements NetworkMonitor {
+  public async getState(): Promise<NetworkState> {
+    return toNetworkState(await NetInfo.fetch());
+  }
+
+  public subscribe(listener: (state: NetworkState) => void): () => void {
+    return NetInfo.addEventListener((state) => listener(toNetworkState(state)));
+  }
+}
@@ -0,0 +1,272 @@
+import EncryptedStorage from 'react-native-encrypted-storage';
+import { AUTH_TOKEN_STORAGE_KEY, TOKEN_STORE_VERSION } from '../constants';
+import { StorageException } from '../exceptions';
+import type { PendingLogin, TokenPayload, TokenStore } from '../types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('TokenStore');
+
+type StorageOperation = 'get' | 'save' | 'clear';
+
+interface StoredAccounts {
+  version: number;
+  accounts: string[];
+}
+
+interface StoredTokens {
+  version: number;
+  tokens: TokenPayload;
+}
+
+const parse = (jsonString: string, operation: StorageOperation): any => {
+  try {
+    return JSON.parse(jsonString);
+  } catch (error) {
+    throw new StorageException(
+      'TokenStore',
+      operation,
+      'Stored tokens are not valid JSON.',
+      { cause: error }
+    );
+  }
+};
+
+/**
+ * Default store, backed by `react-native-encrypted-storage` (Keychain / EncryptedSharedPreferences).
+ *
+ * `key` holds the list of accounts, most recently saved first; each account's tokens live
+ * under `key.<email>`. Versions 0 and 1 kept a single session directly under `key` and are
+ * migrated on first access. A login waiting for its redirect is kept under `key.pendingLogin`.
+ */
+export class EncryptedTokenStore implements TokenStore {
+  // Index updates are read-modify-write, so every store on the device shares one queue.
+  static #queue: Promise<unknown> = Promise.resolve();
+  #key: string;
+
+  constructor(key = AUTH_TOKEN_STORAGE_KEY) {
+    this.#key = key;
+  }
+
+  public get(email?: string): Promise<TokenPayload | null> {
+    return this.#serialize(async () => {
+      const account = email ?? (await this.#readAccounts('get'))[0];
+      if (!account) return null;
+      const jsonString = await this.#getItem(this.#accountKey(account), 'get');
+      if (!jsonString) return null;
+
+      const stored = parse(jsonString, 'get') as StoredTokens;
+      if (stored?.version !== TOKEN_STORE_VERSION || !stored.tokens) {
+        throw new StorageException(
+          'TokenStore',
+          'get',
+          `Unsupported token payload version ${stored?.version}.`
+        );
+      }
+      return stored.tokens;
+    });
+  }
+
+  public save(tokens: TokenPayload): Promise<void> {
+    return this.#serialize(async () => {
+      const accounts = await this.#readAccounts('save');
+      await this.#writeTokens(tokens);
+      await this.#writeAccounts(
+        [
+          tokens.email,
+          ...accounts.filter((account) => account !== tokens.email),
+        ],
+        'save'
+      );
+      logger.info('Tokens saved successfully.');
+    });
+  }
+
+  public clear(email: string): Promise<void> {
+    return this.#serialize(async () => {
+      const accounts = await this.#readAccounts('clear');
+      await this.#removeItem(this.#accountKey(email), 'clear');
+      await this.#writeAccounts(
+        accounts.filter((account) => account !== email),
+        'clear'
+      );
+      logger.info('Tokens cleared successfully.');
+    });
+  }
+
+  public listAccounts(): Promise<string[]> {
+    return this.#serialize(() => this.#readAccounts('get'));
+  }
+
+  public async getPendingLogin(): Promise<PendingLogin | null> {
+    const jsonString = await this.#getItem(this.#pendingLoginKey, 'get');
+    return jsonString ? (parse(jsonString, 'get') as PendingLogin) : null;
+  }
+
+  public savePendingLogin(pending: PendingLogin): Promise<void> {
+    return this.#setItem(
+      this.#pendingLoginKey,
+      JSON.stringify(pending),
+      'save'
+    );
+  }
+
+  public clearPendingLogin(): Promise<void> {
+    return this.#removeItem(this.#pendingLoginKey, 'clear');
+  }
+
+  async #readAccounts(operation: StorageOperation): Promise<string[]> {
+    const jsonString = await this.#getItem(this.#key, operation);
+    if (!jsonString) return [];
+
+    const stored = parse(jsonString, operation);
+    if (
+      stored?.version === TOKEN_STORE_VERSION &&
+      Array.isArray(stored.accounts)
+    ) {
+      return (stored as StoredAccounts).accounts;
+    }
+    // 0: bare `{ accessToken, refreshToken, email }`; 1: `{ version: 1, tokens }`.
+    const legacy: TokenPayload | undefined =
+      stored?.version === undefined
+        ? stored
+        : stored?.version === 1
+          ? stored.tokens
+          : undefined;
+    if (!legacy?.email) {
+      throw new StorageException(
+        'TokenStore',
+        operation,
+        `Unsupported token payload version ${stored?.version}.`
+      );
+    }
+    logger.info(`Migrating stored tokens to version ${TOKEN_STORE_VERSION}.`);
+    await this.#writeTokens(legacy);
+    await this.#writeAccounts([legacy.email], operation);
+    return [legacy.email];
+  }
+
+  async #writeTokens(tokens: TokenPayload): Promise<void> {
+    const stored: StoredTokens = { version: TOKEN_STORE_VERSION, tokens };
+    await this.#setItem(
+      this.#accountKey(tokens.email),
+      JSON.stringify(stored),
+      'save'
+    );
+  }
+
+  async #writeAccounts(
+    accounts: string[],
+    operation: StorageOperation
+  ): Promise<void> {
+    if (!accounts.length) {
+      await this.#removeItem(this.#key, operation);
+      return;
+    }
+    const stored: StoredAccounts = { version: TOKEN_STORE_VERSION, accounts };
+    await this.#setItem(this.#key, JSON.stringify(stored), operation);
+  }
+
+  #accountKey(email: string): string {
+    return `${this.#key}.${email}`;
+  }
+
+  get #pendingLoginKey(): string {
+    return `${this.#key}.pendingLogin`;
+  }
+
+  async #getItem(
+    key: string,
+    operation: StorageOperation
+  ): Promise<string | null | undefined> {
+    try {
+      return await EncryptedStorage.getItem(key);
+    } catch (error) {
+      throw new StorageException(
+        'TokenStore',
+        operation,
+        'Failed to read tokens.',
+        { cause: error }
+      );
+    }
+  }
+
+  async #setItem(
+    key: string,
+    value: string,
+    operation: StorageOperation
+  ): Promise<void> {
+    try {
+      await EncryptedStorage.setItem(key, value);
+    } catch (error) {
+      throw new StorageException(
+        'TokenStore',
+        operation,
+        'Failed to save tokens.',
+        { cause: error }
+      );
+    }
+  }
+
+  async #removeItem(key: string, operation: StorageOperation): Promise<void> {
+    try {
+      await EncryptedStorage.removeItem(key);
+    } catch (error) {
+      throw new StorageException(
+        'TokenStore',
+        operation,
+        'Failed to clear tokens.',
+        { cause: error }
+      );
+    }
+  }
+
+  #serialize<T>(task: () => Promise<T>): Promise<T> {
+    const run = EncryptedTokenStore.#queue.then(task);
+    EncryptedTokenStore.#queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * Keeps tokens in memory only. Meant for tests and for apps that persist the session themselves.
+ */
+export class InMemoryTokenStore implements TokenStore {
+  // Insertion order doubles as recency: saving moves an account to the end.
+  #accounts = new Map<string, TokenPayload>();
+  #pendingLogin: PendingLogin | null = null;
+
+  constructor(tokens: TokenPayload[] = []) {
+    tokens.forEach((entry) => this.#accounts.set(entry.email, { ...entry }));
+  }
+
+  public async get(email?: string): Promise<TokenPayload | null> {
+    const account = email ?? (await this.listAccounts())[0];
+    const tokens = account ? this.#accounts.get(account) : undefined;
+    return tokens ? { ...tokens } : null;
+  }
+
+  public async save(tokens: TokenPayload): Promise<void> {
+    this.#accounts.delete(tokens.email);
+    this.#accounts.set(tokens.email, { ...tokens });
+  }
+
+  public async clear(email: string): Promise<void> {
+    this.#accounts.delete(email);
+  }
+
+  public async listAccounts(): Promise<string[]> {
+    return [...this.#accounts.keys()].reverse();
+  }
+
+  public async getPendingLogin(): Promise<PendingLogin | null> {
+    return this.#pendingLogin ? { ...this.#pendingLogin } : null;
+  }
+
+  public async savePendingLogin(pending: PendingLogin): Promise<void> {
+    this.#pendingLogin = { ...pending };
+  }
+
+  public async clearPendingLogin(): Promise<void> {
+    this.#pendingLogin = null;
+  }
+}
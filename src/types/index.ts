@@ -1,24 +1,569 @@
+import type { RegistererState, SessionState } from 'sip.js';
 import type { Session } from '../core/Session';
 
 export type SessionType = 'Incoming' | 'Outgoing';
 
 export interface CallDetails {
-    candidate?: string;
+  candidate?: string;
+  /** True when an incoming call arrives while another call is established. */
+  isCallWaiting?: boolean;
+}
+
+export interface CallMetadata {
+  transactionId?: string;
+  jobId?: string;
+  candidateId?: string;
+}
+
+/** Parsed `Reason` header (RFC 3326), e.g. `SIP ;cause=200 ;text="Call completed elsewhere"`. */
+export interface SipReasonHeader {
+  protocol: string;
+  cause?: number;
+  text?: string;
+}
+
+interface CallEndReasonBase {
+  /** Reason header of the BYE, CANCEL or final response that ended the call, if any. */
+  reason?: SipReasonHeader;
+}
+
+/**
+ * Why a call ended.
+ * - Ended by us: `local-hangup` (BYE), `cancelled` (outgoing, before answer), `rejected` (incoming), `transferred`.
+ * - Ended by the remote party: `remote-hangup` (BYE), `remote-cancelled` (caller gave up before we answered),
+ *   `answered-elsewhere` (another device picked up a forked call).
+ * - Outgoing call refused with a final response: `busy` (486/600), `declined` (603),
+ *   `no-answer` (408/480/487), `unreachable` (404/410/484/485/604), `failed` (any other).
+ * - `network-error`: no response, or the transport was lost.
+ * - `setup-timeout`: outgoing call not answered within `StartOptions.callSetupTimeoutMs`; we sent CANCEL.
+ *
+ * `rejected` carries the response we sent and, for calls declined by an auto-reject rule, the `rule`.
+ */
+export type CallEndReason =
+  | (CallEndReasonBase & { type: 'local-hangup' | 'cancelled' | 'transferred' })
+  | (CallEndReasonBase & {
+      type: 'rejected';
+      statusCode?: number;
+      reasonPhrase?: string;
+      rule?: AutoRejectRule;
+    })
+  | (CallEndReasonBase & {
+      type: 'remote-hangup' | 'remote-cancelled' | 'answered-elsewhere';
+    })
+  | (CallEndReasonBase & {
+      type: 'busy' | 'declined' | 'no-answer' | 'unreachable' | 'failed';
+      statusCode?: number;
+      reasonPhrase?: string;
+    })
+  | (CallEndReasonBase & {
+      type: 'network-error';
+      statusCode?: number;
+      reasonPhrase?: string;
+    })
+  | (CallEndReasonBase & { type: 'setup-timeout'; timeoutMs: number });
+
+/**
+ * How a call ended, from the agent's point of view.
+ * `missed`: incoming, never answered and not rejected locally.
+ * `rejected`: incoming, declined by the agent or an auto-reject rule. `cancelled`: outgoing, abandoned by the agent.
+ * `failed`: outgoing, never answered by the remote party.
+ */
+export type CallOutcome =
+  'completed' | 'missed' | 'rejected' | 'cancelled' | 'failed';
+
+export interface CallRecord {
+  id: string;
+  direction: SessionType;
+  remoteContact?: string;
+  /** Caller ID used for outgoing calls. */
+  virtualNumber?: string;
+  metadata: CallMetadata;
+  createdAt: number;
+  ringingAt?: number;
+  answeredAt?: number;
+  endedAt: number;
+  /** Talk time in seconds; 0 when the call was never answered. */
+  duration: number;
+  outcome: CallOutcome;
+  endReason?: CallEndReason;
+}
+
+export interface CallHistoryQuery {
+  /** Maximum number of records, newest first. */
+  limit?: number;
+  /** Only records created before this time (epoch ms or Date). */
+  before?: number | Date;
+  direction?: SessionType;
+  missedOnly?: boolean;
+}
+
+export interface CallHistoryOptions {
+  /** Set to false to stop recording calls. Defaults to true. */
+  enabled?: boolean;
+  /** Oldest records beyond this count are dropped. Defaults to 200. */
+  maxRecords?: number;
+  /** Records older than this are dropped. Defaults to 30. */
+  maxAgeDays?: number;
+}
+
+export interface ReconnectionPolicy {
+  /** Delay before the first attempt in milliseconds. Defaults to 1000. */
+  initialDelayMs?: number;
+  /** Factor applied to the delay after every failed attempt. Defaults to 2. */
+  multiplier?: number;
+  /** Upper bound for the delay in milliseconds. Defaults to 30000. */
+  maxDelayMs?: number;
+  /** Random spread applied to each delay, as a fraction (0 - 1). Defaults to 0.2. */
+  jitter?: number;
+  /** Attempts before giving up; `Infinity` retries forever. Defaults to 10. */
+  maxAttempts?: number;
+}
+
+export interface NetworkState {
+  isConnected: boolean;
+  /** Interface type as reported by the platform, e.g. 'wifi', 'cellular', 'none'. */
+  type: string;
+}
+
+/**
+ * Source of network reachability events. The SDK uses NetInfo by default;
+ * inject your own implementation to drive network changes in tests.
+ */
+export interface NetworkMonitor {
+  getState(): Promise<NetworkState>;
+  /** Returns a function that removes the subscription. */
+  subscribe(listener: (state: NetworkState) => void): () => void;
+}
+
+/** Why a connection state change happened, when it was caused by the network. */
+export type ConnectionChangeReason =
+  'network-lost' | 'network-restored' | 'network-changed';
+
+/**
+ * Environment overrides passed to `Softphone.initialize`, e.g. to target staging or a local mock.
+ */
+export interface SoftphoneConfig {
+  /** REST API base URL. Defaults to `https://api.frejun.com/api`. */
+  baseUrl?: string;
+  /** OAuth authorize page opened by `Softphone.login()`. */
+  oauthAuthorizeUrl?: string;
+  /** Deep link the authorize page redirects back to. Sent as `redirect_uri` when set. */
+  oauthRedirectUri?: string;
+  /** How long a `login()` attempt may take before its redirect is rejected. Defaults to 10 minutes. */
+  oauthLoginTimeoutMs?: number;
+  /** WebSocket transport scheme. Defaults to `wss`. */
+  sipTransport?: 'wss' | 'ws';
+  /** Port of the SIP WebSocket on the edge domain. Defaults to 9080. */
+  sipPort?: number;
+  /** Seconds to wait for the SIP WebSocket to open. Defaults to 15. */
+  connectionTimeout?: number;
+  /** Requested REGISTER expiry in seconds. Defaults to 600. */
+  registrationExpires?: number;
+  /** Per-request REST timeout in milliseconds. Defaults to 15000. */
+  requestTimeoutMs?: number;
+  /** Secure storage key for the session tokens. */
+  tokenStorageKey?: string;
+}
+
+export type ResolvedSoftphoneConfig = Required<
+  Omit<SoftphoneConfig, 'oauthRedirectUri'>
+> &
+  Pick<SoftphoneConfig, 'oauthRedirectUri'>;
+
+/** Responses an incoming call can be declined with: Busy Here, Decline or Temporarily Unavailable. */
+export type RejectStatusCode = 486 | 603 | 480;
+
+export interface RejectOptions {
+  /** Defaults to 480 Temporarily Unavailable. */
+  statusCode?: RejectStatusCode;
+  /** Reason phrase of the response. Defaults to the standard phrase for `statusCode`. */
+  reason?: string;
+}
+
+/**
+ * Why an incoming call was declined before `callCreated`.
+ * - `call-limit`: `maxConcurrentCalls` calls already in progress (486).
+ * - `in-call`: another call is in progress and `autoReject.whenInCall` is set (486).
+ * - `outside-working-hours`: `autoReject.isWithinWorkingHours` returned false (480).
+ * - `blocked-number`: the caller is in `autoReject.blockedNumbers` (603).
+ * - `dnd` / `away`: the agent's availability is not `available` (486 / 480).
+ */
+export type AutoRejectRule =
+  | 'call-limit'
+  | 'in-call'
+  | 'outside-working-hours'
+  | 'blocked-number'
+  | 'dnd'
+  | 'away';
+
+/**
+ * Whether the agent takes incoming calls. Outgoing calls work in every mode.
+ * - `available`: registered; incoming calls are offered.
+ * - `dnd`: stays registered; incoming calls are declined with 486 Busy Here.
+ * - `away`: unregistered; a call that still arrives is declined with 480 Temporarily Unavailable.
+ */
+export type Availability = 'available' | 'dnd' | 'away';
+
+export interface AutoRejectOptions {
+  /** Decline new calls while another call is in progress instead of offering call waiting. */
+  whenInCall?: boolean;
+  /** Called for each incoming call; return false to decline it. */
+  isWithinWorkingHours?: (now: Date) => boolean;
+  /** Callers to decline. Compared digit by digit, so `+`, spaces and dashes are ignored. */
+  blockedNumbers?: string[];
+}
+
+export interface AutoRejectedCall {
+  /** Identifier of the declined INVITE; also the id of its call history record. */
+  id: string;
+  remoteContact?: string;
+  rule: AutoRejectRule;
+  statusCode: RejectStatusCode;
+  at: number;
+}
+
+export interface StartOptions {
+  /** Incoming calls beyond this limit are rejected with 486 Busy Here. Defaults to 2. */
+  maxConcurrentCalls?: number;
+  qualityMonitor?: QualityMonitorOptions;
+  reconnection?: ReconnectionPolicy;
+  /** Pass `false` to disable network monitoring. */
+  networkMonitor?: NetworkMonitor | false;
+  callHistory?: CallHistoryOptions;
+  /** Outgoing calls not answered within this many milliseconds are cancelled. 0 disables. Defaults to 60000. */
+  callSetupTimeoutMs?: number;
+  /** Play ringback tones and announcements sent as early media (18x with SDP). Defaults to true. */
+  earlyMedia?: boolean;
+  /** Rules for declining incoming calls before they are offered to the app. */
+  autoReject?: AutoRejectOptions;
+}
+
+/**
+ * A provisional (1xx) response to an outgoing call.
+ */
+export interface CallProgress {
+  statusCode: number;
+  reasonPhrase?: string;
+  /** The response carried SDP: ringback or an announcement is being sent as early media. */
+  hasEarlyMedia: boolean;
+}
+
+/**
+ * High-level call lifecycle. Outgoing calls start in `dialing`, incoming ones in `ringing`.
+ * `on-hold` covers a hold by either side; `reconnecting` means signalling or media is being restored.
+ */
+export type CallState =
+  | 'dialing'
+  | 'ringing'
+  | 'early-media'
+  | 'connected'
+  | 'on-hold'
+  | 'reconnecting'
+  | 'ending'
+  | 'ended';
+
+export interface CallStateTransition {
+  /** Null for the state the call was created in. */
+  from: CallState | null;
+  to: CallState;
+  /** Epoch milliseconds. */
+  at: number;
+}
+
+/** Which side of the call initiated a hold or resume. */
+export type HoldOrigin = 'local' | 'remote';
+
+/** `rfc4733` sends in-band telephone-events over RTP; `info` sends SIP INFO (application/dtmf-relay). */
+export type DtmfMethod = 'rfc4733' | 'info';
+
+export interface DtmfOptions {
+  method?: DtmfMethod;
+  /** Tone length in milliseconds. */
+  duration?: number;
+  /** Silence between tones in milliseconds. */
+  interToneGap?: number;
+}
+
+export type TransferStatus = 'trying' | 'ringing' | 'success' | 'failed';
+
+export interface TransferProgress {
+  status: TransferStatus;
+  /** SIP status from the REFER response or the NOTIFY sipfrag, when known. */
+  statusCode?: number;
+  reasonPhrase?: string;
+}
+
+export type QualityLevel = 'good' | 'fair' | 'poor';
+
+export interface QualityThresholds {
+  /** Minimum MOS rated 'good'. Defaults to 4.0. */
+  goodMos?: number;
+  /** Minimum MOS rated 'fair'; anything lower is 'poor'. Defaults to 3.1. */
+  fairMos?: number;
+}
+
+export interface QualityMonitorOptions {
+  /** Set to false to disable sampling. Defaults to true. */
+  enabled?: boolean;
+  /** Sampling period in milliseconds. Defaults to 2000. */
+  intervalMs?: number;
+  thresholds?: QualityThresholds;
+}
+
+export interface CallQualitySnapshot {
+  timestamp: number;
+  /** Percentage of inbound packets lost during the last interval. */
+  packetLoss: number;
+  /** Inbound jitter in milliseconds. */
+  jitter: number;
+  /** Round-trip time in milliseconds. */
+  rtt: number;
+  /** Inbound and outbound audio bitrate in kbit/s over the last interval. */
+  inboundBitrate: number;
+  outboundBitrate: number;
+  /** Estimated Mean Opinion Score (1 - 4.5) derived from a simplified E-model. */
+  mos: number;
+  level: QualityLevel;
+}
+
+export interface CallQualitySummary {
+  samples: number;
+  averageMos: number;
+  minMos: number;
+  averagePacketLoss: number;
+  maxPacketLoss: number;
+  averageJitter: number;
+  averageRtt: number;
+  /** Worst level observed during the call. */
+  worstLevel: QualityLevel;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** `SIP` carries sip.js output, including SIP message traces at `debug`. */
+export type LogCategory =
+  | 'Softphone'
+  | 'Auth'
+  | 'UserAgent'
+  | 'Session'
+  | 'TokenStore'
+  | 'CallQualityMonitor'
+  | 'CallHistoryStore'
+  | 'ApiClient'
+  | 'Validation'
+  | 'SIP';
+
+/**
+ * Receives every SDK log line after level filtering and secret redaction.
+ */
+export interface Logger {
+  log(
+    level: LogLevel,
+    category: LogCategory,
+    message: string,
+    ...data: unknown[]
+  ): void;
+}
+
+export interface LoggingOptions {
+  /** Defaults to a console-backed logger. */
+  logger?: Logger;
+  /** Minimum level written. Defaults to 'info'. */
+  level?: LogLevel | 'silent';
+  /** Per-category overrides of `level`. */
+  categories?: Partial<Record<LogCategory, LogLevel | 'silent'>>;
 }
 
 export interface TokenPayload {
-    accessToken: string;
-    refreshToken: string;
-    email: string;
+  accessToken: string;
+  refreshToken: string;
+  email: string;
+  /** Set by `setAvailability()`; missing means `available`. */
+  availability?: Availability;
+}
+
+/** Tokens returned by your backend. `refreshToken` may be omitted when it was not rotated. */
+export interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+export interface CodeExchangeRequest {
+  code: string;
+  /** PKCE verifier for the `code_challenge` sent with `login()`. */
+  codeVerifier: string;
+  redirectUri?: string;
+  email: string;
+}
+
+/**
+ * Backend mode: trades the current refresh token for new tokens on your server,
+ * so `clientSecret` never has to ship in the app.
+ */
+export type TokenProvider = (session: {
+  refreshToken: string;
+  email: string;
+}) => Promise<TokenSet>;
+
+/** Backend mode: trades the OAuth redirect's authorization code for tokens on your server. */
+export type CodeExchanger = (
+  request: CodeExchangeRequest
+) => Promise<Required<TokenSet>>;
+
+/**
+ * An OAuth login started by `login()` and waiting for its redirect.
+ */
+export interface PendingLogin {
+  state: string;
+  codeVerifier: string;
+  redirectUri?: string;
+  createdAt: number;
 }
 
+/**
+ * Where signed-in sessions are kept between launches, one per account email. Rejections from a custom
+ * store are surfaced to callers as `StorageException`.
+ */
+export interface TokenStore {
+  /** Tokens for `email`, or for the most recently saved account when omitted. */
+  get(email?: string): Promise<TokenPayload | null>;
+  /** Stores the session under `tokens.email`, replacing that account's previous tokens. */
+  save(tokens: TokenPayload): Promise<void>;
+  clear(email: string): Promise<void>;
+  /** Emails with a stored session, most recently saved first. */
+  listAccounts(): Promise<string[]>;
+  /** The login waiting for its redirect; it must survive the app being killed while the user is in the browser. */
+  getPendingLogin(): Promise<PendingLogin | null>;
+  /** Replaces any pending login. */
+  savePendingLogin(pending: PendingLogin): Promise<void>;
+  clearPendingLogin(): Promise<void>;
+}
+
+export type UserAgentConnectionState = 'Connected' | 'Disconnected';
+
+export type ConnectionStateEvent =
+  | {
+      type: 'UserAgentState';
+      state: UserAgentConnectionState;
+      isErrorState: boolean;
+      error?: Error;
+      reason?: ConnectionChangeReason;
+    }
+  | {
+      type: 'RegistererState';
+      state: RegistererState;
+      isErrorState: boolean;
+      /** Set when the registrar rejected the REGISTER (a `SipRegistrationException`). */
+      error?: Error;
+      reason?: ConnectionChangeReason;
+    };
+
+/**
+ * Events emitted by `Softphone.on()`. Every call-level event also carries the `Session`.
+ */
+export interface SoftphoneEvents {
+  connectionStateChange: (event: ConnectionStateEvent) => void;
+  callCreated: (
+    type: SessionType,
+    session: Session,
+    details: CallDetails
+  ) => void;
+  callRinging: (session: Session) => void;
+  callAnswered: (session: Session) => void;
+  callHangup: (session: Session, reason: CallEndReason) => void;
+  callTerminating: (session: Session) => void;
+  callStateChange: (session: Session, from: CallState, to: CallState) => void;
+  callProgress: (session: Session, progress: CallProgress) => void;
+  callAutoRejected: (call: AutoRejectedCall) => void;
+  availabilityChange: (
+    availability: Availability,
+    previous: Availability
+  ) => void;
+  callHold: (session: Session, origin: HoldOrigin) => void;
+  callResumed: (session: Session, origin: HoldOrigin) => void;
+  muteChange: (session: Session, muted: boolean) => void;
+  dtmfSent: (session: Session, tone: string, method: DtmfMethod) => void;
+  transferProgress: (session: Session, progress: TransferProgress) => void;
+  transferCompleted: (session: Session, success: boolean) => void;
+  callQualityChange: (
+    session: Session,
+    snapshot: CallQualitySnapshot,
+    previousLevel: QualityLevel | null
+  ) => void;
+  sessionRefresh: (payload: TokenPayload) => void;
+  reconnecting: (attempt: number, nextDelayMs: number) => void;
+  reconnectFailed: (attempts: number) => void;
+  networkChange: (state: NetworkState, reason: ConnectionChangeReason) => void;
+}
+
+/**
+ * Events emitted by `Session.on()` for that call only.
+ */
+export interface SessionEvents {
+  stateChange: (state: SessionState) => void;
+  callStateChange: (from: CallState, to: CallState) => void;
+  progress: (progress: CallProgress) => void;
+  hold: (origin: HoldOrigin) => void;
+  resume: (origin: HoldOrigin) => void;
+  mute: (muted: boolean) => void;
+  dtmf: (tone: string, method: DtmfMethod) => void;
+  transferProgress: (progress: TransferProgress) => void;
+  transferCompleted: (success: boolean) => void;
+  qualityChange: (
+    snapshot: CallQualitySnapshot,
+    previousLevel: QualityLevel | null
+  ) => void;
+}
+
+/**
+ * Single-object form of the event API, accepted by `Softphone.start()`.
+ * Each entry is forwarded from the matching `SoftphoneEvents` event.
+ */
 export interface Listeners {
-    onConnectionStateChange?: (type: "UserAgentState" | "RegistererState", state: any, isErrorState: boolean, error?: any) => void;
-    // Updated to accept Session object
-    onCallCreated?: (type: SessionType, session: Session, details: CallDetails) => void;
-    onCallRinging?: (session: Session) => void;
-    onCallAnswered?: (session: Session) => void;
-    onCallHangup?: (session: Session) => void;
-    onCallTerminating?: (session: Session) => void;
-    onSessionRefresh?: (payload: TokenPayload) => void; 
-}
\ No newline at end of file
+  onConnectionStateChange?: (
+    type: ConnectionStateEvent['type'],
+    state: ConnectionStateEvent['state'],
+    isErrorState: boolean,
+    error?: Error,
+    reason?: ConnectionChangeReason
+  ) => void;
+  // Updated to accept Session object
+  onCallCreated?: (
+    type: SessionType,
+    session: Session,
+    details: CallDetails
+  ) => void;
+  onCallRinging?: (session: Session) => void;
+  onCallAnswered?: (session: Session) => void;
+  onCallHangup?: (session: Session, reason: CallEndReason) => void;
+  onCallTerminating?: (session: Session) => void;
+  onCallStateChange?: (
+    session: Session,
+    from: CallState,
+    to: CallState
+  ) => void;
+  onCallProgress?: (session: Session, progress: CallProgress) => void;
+  onCallAutoRejected?: (call: AutoRejectedCall) => void;
+  onAvailabilityChange?: (
+    availability: Availability,
+    previous: Availability
+  ) => void;
+  onCallHold?: (session: Session, origin: HoldOrigin) => void;
+  onCallResumed?: (session: Session, origin: HoldOrigin) => void;
+  onMuteChange?: (session: Session, muted: boolean) => void;
+  onDtmfSent?: (session: Session, tone: string, method: DtmfMethod) => void;
+  onTransferProgress?: (session: Session, progress: TransferProgress) => void;
+  onTransferCompleted?: (session: Session, success: boolean) => void;
+  onCallQualityChange?: (
+    session: Session,
+    snapshot: CallQualitySnapshot,
+    previousLevel: QualityLevel | null
+  ) => void;
+  onSessionRefresh?: (payload: TokenPayload) => void;
+  onReconnecting?: (attempt: number, nextDelayMs: number) => void;
+  onReconnectFailed?: (attempts: number) => void;
+  onNetworkChange?: (
+    state: NetworkState,
+    reason: ConnectionChangeReason
+  ) => void;
+}
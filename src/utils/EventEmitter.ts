@@ -0,0 +1,99 @@
+import type { LogCategory } from '../types';
+import { createLogger, type CategoryLogger } from './logger';
+
+type EventMap<Events> = Record<keyof Events, (...args: any[]) => void>;
+
+interface Subscription {
+  handler: (...args: any[]) => void;
+  once: boolean;
+}
+
+/**
+ * Minimal typed event emitter. A throwing handler is logged and never stops
+ * the remaining handlers or the SDK code that emitted the event.
+ */
+export class TypedEventEmitter<Events extends EventMap<Events>> {
+  #subscriptions = new Map<keyof Events, Subscription[]>();
+  #logger: CategoryLogger;
+
+  constructor(category: LogCategory) {
+    this.#logger = createLogger(category);
+  }
+
+  /**
+   * Subscribes to `event`. Returns a function that removes the subscription.
+   */
+  public on<E extends keyof Events>(event: E, handler: Events[E]): () => void {
+    return this.#add(event, handler, false);
+  }
+
+  /**
+   * Like `on()`, but the handler is removed after its first call.
+   */
+  public once<E extends keyof Events>(
+    event: E,
+    handler: Events[E]
+  ): () => void {
+    return this.#add(event, handler, true);
+  }
+
+  public off<E extends keyof Events>(event: E, handler: Events[E]): void {
+    const subscriptions = this.#subscriptions.get(event);
+    if (!subscriptions) return;
+    this.#subscriptions.set(
+      event,
+      subscriptions.filter((s) => s.handler !== handler)
+    );
+  }
+
+  public emit<E extends keyof Events>(
+    event: E,
+    ...args: Parameters<Events[E]>
+  ): void {
+    const subscriptions = this.#subscriptions.get(event);
+    if (!subscriptions?.length) return;
+
+    if (subscriptions.some((s) => s.once)) {
+      this.#subscriptions.set(
+        event,
+        subscriptions.filter((s) => !s.once)
+      );
+    }
+    for (const { handler } of subscriptions) {
+      try {
+        handler(...args);
+      } catch (e) {
+        this.#logger.error(`Handler for '${String(event)}' threw.`, e);
+      }
+    }
+  }
+
+  public listenerCount<E extends keyof Events>(event: E): number {
+    return this.#subscriptions.get(event)?.length ?? 0;
+  }
+
+  public removeAllListeners<E extends keyof Events>(event?: E): void {
+    if (event === undefined) this.#subscriptions.clear();
+    else this.#subscriptions.delete(event);
+  }
+
+  #add<E extends keyof Events>(
+    event: E,
+    handler: Events[E],
+    once: boolean
+  ): () => void {
+    const subscription: Subscription = { handler, once };
+    this.#subscriptions.set(event, [
+      ...(this.#subscriptions.get(event) ?? []),
+      subscription,
+    ]);
+    return () => {
+      const subscriptions = this.#subscriptions.get(event);
+      if (subscriptions)
+        this.#subscriptions.set(
+          event,
+          subscriptions.filter((s) => s !== subscription)
+        );
+    };
+  }
+}
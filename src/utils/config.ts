@@ -0,0 +1,106 @@
+import {
+  API_TIMEOUT,
+  AUTH_TOKEN_STORAGE_KEY,
+  BASE_URL,
+  OAUTH_AUTHORIZE_URL,
+  OAUTH_LOGIN_TIMEOUT,
+  REGISTRATION_EXPIRES,
+  SIP_CONNECTION_TIMEOUT,
+  SIP_PORT,
+} from '../constants';
+import { InvalidValueException } from '../exceptions';
+import type { ResolvedSoftphoneConfig, SoftphoneConfig } from '../types';
+
+const HTTP_URL = /^https?:\/\/[^\s/?#]+[^\s]*$/i;
+
+export const DEFAULT_SOFTPHONE_CONFIG: ResolvedSoftphoneConfig = {
+  baseUrl: BASE_URL,
+  oauthAuthorizeUrl: OAUTH_AUTHORIZE_URL,
+  oauthRedirectUri: undefined,
+  oauthLoginTimeoutMs: OAUTH_LOGIN_TIMEOUT,
+  sipTransport: 'wss',
+  sipPort: SIP_PORT,
+  connectionTimeout: SIP_CONNECTION_TIMEOUT,
+  registrationExpires: REGISTRATION_EXPIRES,
+  requestTimeoutMs: API_TIMEOUT,
+  tokenStorageKey: AUTH_TOKEN_STORAGE_KEY,
+};
+
+/**
+ * Validates `config` and fills in defaults. Throws `InvalidValueException` naming the bad field.
+ */
+export const resolveSoftphoneConfig = (
+  config: SoftphoneConfig = {}
+): ResolvedSoftphoneConfig => {
+  const invalid = (param: keyof SoftphoneConfig, validValues: string[]) => {
+    return new InvalidValueException(
+      'initialize',
+      `config.${param}`,
+      config[param],
+      validValues
+    );
+  };
+
+  if (config.baseUrl !== undefined && !HTTP_URL.test(config.baseUrl))
+    throw invalid('baseUrl', ['http(s) URL']);
+  if (
+    config.oauthAuthorizeUrl !== undefined &&
+    !HTTP_URL.test(config.oauthAuthorizeUrl)
+  ) {
+    throw invalid('oauthAuthorizeUrl', ['http(s) URL']);
+  }
+  if (
+    config.oauthRedirectUri !== undefined &&
+    !/^[a-z][a-z0-9+.-]*:\S+$/i.test(config.oauthRedirectUri)
+  ) {
+    throw invalid('oauthRedirectUri', ['Absolute URI, e.g. myapp://oauth']);
+  }
+  if (
+    config.oauthLoginTimeoutMs !== undefined &&
+    !(config.oauthLoginTimeoutMs > 0)
+  )
+    throw invalid('oauthLoginTimeoutMs', ['Number > 0']);
+  if (
+    config.sipTransport !== undefined &&
+    config.sipTransport !== 'wss' &&
+    config.sipTransport !== 'ws'
+  ) {
+    throw invalid('sipTransport', ['wss', 'ws']);
+  }
+  if (
+    config.sipPort !== undefined &&
+    (!Number.isInteger(config.sipPort) ||
+      config.sipPort < 1 ||
+      config.sipPort > 65535)
+  ) {
+    throw invalid('sipPort', ['Integer 1-65535']);
+  }
+  if (config.connectionTimeout !== undefined && !(config.connectionTimeout > 0))
+    throw invalid('connectionTimeout', ['Number > 0']);
+  if (
+    config.registrationExpires !== undefined &&
+    (!Number.isInteger(config.registrationExpires) ||
+      config.registrationExpires < 60)
+  ) {
+    throw invalid('registrationExpires', ['Integer >= 60']);
+  }
+  if (config.requestTimeoutMs !== undefined && !(config.requestTimeoutMs > 0))
+    throw invalid('requestTimeoutMs', ['Number > 0']);
+  if (
+    config.tokenStorageKey !== undefined &&
+    (typeof config.tokenStorageKey !== 'string' ||
+      !config.tokenStorageKey.trim())
+  ) {
+    throw invalid('tokenStorageKey', ['Non-empty string']);
+  }
+
+  const resolved = { ...DEFAULT_SOFTPHONE_CONFIG };
+  (
+    Object.keys(DEFAULT_SOFTPHONE_CONFIG) as Array<keyof SoftphoneConfig>
+  ).forEach((key) => {
+    if (config[key] !== undefined) (resolved as any)[key] = config[key];
+  });
+  // Paths are appended to the base URL, so keep it free of a trailing slash.
+  resolved.baseUrl = resolved.baseUrl.replace(/\/+$/, '');
+  return resolved;
+};
@@ -0,0 +1,57 @@
+import type { Listeners, SoftphoneEvents } from '../types';
+import type { TypedEventEmitter } from './EventEmitter';
+
+type ForwardedListener = Exclude<keyof Listeners, 'onConnectionStateChange'>;
+
+const LISTENER_EVENTS: Record<ForwardedListener, keyof SoftphoneEvents> = {
+  onCallCreated: 'callCreated',
+  onCallRinging: 'callRinging',
+  onCallAnswered: 'callAnswered',
+  onCallHangup: 'callHangup',
+  onCallTerminating: 'callTerminating',
+  onCallStateChange: 'callStateChange',
+  onCallProgress: 'callProgress',
+  onCallAutoRejected: 'callAutoRejected',
+  onAvailabilityChange: 'availabilityChange',
+  onCallHold: 'callHold',
+  onCallResumed: 'callResumed',
+  onMuteChange: 'muteChange',
+  onDtmfSent: 'dtmfSent',
+  onTransferProgress: 'transferProgress',
+  onTransferCompleted: 'transferCompleted',
+  onCallQualityChange: 'callQualityChange',
+  onSessionRefresh: 'sessionRefresh',
+  onReconnecting: 'reconnecting',
+  onReconnectFailed: 'reconnectFailed',
+  onNetworkChange: 'networkChange',
+};
+
+/**
+ * Forwards emitter events to a `Listeners` object. Handlers are looked up on every
+ * event, so replacing a property on `listeners` takes effect immediately.
+ * Returns a function that detaches the whole object.
+ */
+export const bindListeners = (
+  listeners: Listeners,
+  events: TypedEventEmitter<SoftphoneEvents>
+): (() => void) => {
+  const unsubscribers = [
+    events.on('connectionStateChange', (event) => {
+      listeners.onConnectionStateChange?.(
+        event.type,
+        event.state,
+        event.isErrorState,
+        event.error,
+        event.reason
+      );
+    }),
+    ...(Object.keys(LISTENER_EVENTS) as ForwardedListener[]).map((key) =>
+      events.on(LISTENER_EVENTS[key], ((...args: unknown[]) => {
+        (listeners[key] as ((...params: unknown[]) => void) | undefined)?.(
+          ...args
+        );
+      }) as SoftphoneEvents[keyof SoftphoneEvents])
+    ),
+  ];
+  return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+};
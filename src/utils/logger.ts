@@ -0,0 +1,155 @@
+import type { LogCategory, Logger, LoggingOptions, LogLevel } from '../types';
+
+const LEVEL_RANK: Record<LogLevel | 'silent', number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+const REDACTED = '[REDACTED]';
+
+// Object keys whose values are never written out, compared case-insensitively.
+const SECRET_KEYS = new Set([
+  'accesstoken',
+  'access_token',
+  'access',
+  'refreshtoken',
+  'refresh_token',
+  'refresh',
+  'siptoken',
+  'token',
+  'authorization',
+  'clientsecret',
+  'client_secret',
+  'password',
+]);
+
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // Bearer / Basic credentials in Authorization headers
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi, `$1 ${REDACTED}`],
+  // SIP `token:` header and similar key/value pairs in raw messages or query strings
+  [
+    /\b(token|access_token|refresh_token|client_secret)(\s*[:=]\s*)[^\s&",;]+/gi,
+    `$1$2${REDACTED}`,
+  ],
+  // OAuth authorization codes in redirect URLs
+  [/([?&]code=)[^&\s#]+/gi, `$1${REDACTED}`],
+  // Bare JWTs
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, REDACTED],
+];
+
+export const redactString = (value: string): string => {
+  return SECRET_PATTERNS.reduce(
+    (text, [pattern, replacement]) => text.replace(pattern, replacement),
+    value
+  );
+};
+
+/**
+ * Returns a copy of `value` with token-like strings and secret-named properties masked.
+ */
+export const redact = (
+  value: unknown,
+  seen = new WeakSet<object>()
+): unknown => {
+  if (typeof value === 'string') return redactString(value);
+  if (!value || typeof value !== 'object') return value;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const copy = new Error(redactString(value.message));
+    copy.name = value.name;
+    Object.entries(value).forEach(([key, entry]) => {
+      (copy as any)[key] = SECRET_KEYS.has(key.toLowerCase())
+        ? REDACTED
+        : redact(entry, seen);
+    });
+    return copy;
+  }
+  if (Array.isArray(value)) return value.map((entry) => redact(entry, seen));
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    result[key] =
+      SECRET_KEYS.has(key.toLowerCase()) && entry
+        ? REDACTED
+        : redact(entry, seen);
+  });
+  return result;
+};
+
+export const consoleLogger: Logger = {
+  log(level, category, message, ...data) {
+    const line = `[${category}] ${message}`;
+    switch (level) {
+      case 'debug':
+        console.debug(line, ...data);
+        break;
+      case 'info':
+        console.log(line, ...data);
+        break;
+      case 'warn':
+        console.warn(line, ...data);
+        break;
+      case 'error':
+        console.error(line, ...data);
+        break;
+    }
+  },
+};
+
+let sink: Logger = consoleLogger;
+let defaultLevel: LogLevel | 'silent' = 'info';
+let categoryLevels: LoggingOptions['categories'] = {};
+
+/**
+ * Replaces the logging configuration for every SDK module.
+ */
+export const configureLogging = (options: LoggingOptions = {}): void => {
+  sink = options.logger ?? consoleLogger;
+  defaultLevel = options.level ?? 'info';
+  categoryLevels = options.categories ?? {};
+};
+
+export const isLevelEnabled = (
+  category: LogCategory,
+  level: LogLevel
+): boolean => {
+  const threshold = categoryLevels?.[category] ?? defaultLevel;
+  return LEVEL_RANK[level] >= LEVEL_RANK[threshold];
+};
+
+export const write = (
+  level: LogLevel,
+  category: LogCategory,
+  message: string,
+  data: unknown[]
+): void => {
+  if (!isLevelEnabled(category, level)) return;
+  try {
+    sink.log(
+      level,
+      category,
+      redactString(message),
+      ...data.map((entry) => redact(entry))
+    );
+  } catch {
+    // A faulty sink must never break call handling.
+  }
+};
+
+export interface CategoryLogger {
+  debug(message: string, ...data: unknown[]): void;
+  info(message: string, ...data: unknown[]): void;
+  warn(message: string, ...data: unknown[]): void;
+  error(message: string, ...data: unknown[]): void;
+}
+
+export const createLogger = (category: LogCategory): CategoryLogger => ({
+  debug: (message, ...data) => write('debug', category, message, data),
+  info: (message, ...data) => write('info', category, message, data),
+  warn: (message, ...data) => write('warn', category, message, data),
+  error: (message, ...data) => write('error', category, message, data),
+});
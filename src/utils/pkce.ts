@@ -0,0 +1,25 @@
+import 'react-native-get-random-values';
+import { Buffer } from 'buffer';
+import { sha256 } from 'js-sha256';
+
+const toBase64Url = (bytes: Uint8Array | ArrayBuffer): string => {
+  return Buffer.from(bytes as Uint8Array)
+    .toString('base64')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/[=]+$/, '');
+};
+
+/**
+ * URL-safe random string from the platform CSPRNG (32 bytes gives 43 characters).
+ */
+export const createRandomString = (byteLength = 32): string => {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+};
+
+/** RFC 7636 `S256` challenge for a code verifier. */
+export const createCodeChallenge = (codeVerifier: string): string => {
+  return toBase64Url(sha256.arrayBuffer(codeVerifier));
+};
@@ -0,0 +1,42 @@
+export type MediaDirection = 'sendrecv' | 'sendonly' | 'recvonly' | 'inactive';
+
+const DIRECTIONS: MediaDirection[] = [
+  'sendrecv',
+  'sendonly',
+  'recvonly',
+  'inactive',
+];
+
+/**
+ * Returns the direction of the first audio m-line in an SDP body.
+ * Falls back to the session-level attribute, then to 'sendrecv' (RFC 3264 default).
+ */
+export const getAudioDirection = (sdp: string): MediaDirection => {
+  let sessionDirection: MediaDirection | undefined;
+  let inMedia = false;
+  let inAudio = false;
+
+  for (const rawLine of sdp.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line.startsWith('m=')) {
+      if (inAudio) break;
+      inMedia = true;
+      inAudio = line.startsWith('m=audio');
+      continue;
+    }
+    if (!line.startsWith('a=')) continue;
+
+    const attribute = line.substring(2) as MediaDirection;
+    if (!DIRECTIONS.includes(attribute)) continue;
+    if (inAudio) return attribute;
+    if (!inMedia) sessionDirection = attribute;
+  }
+  return sessionDirection ?? 'sendrecv';
+};
+
+/**
+ * A remote party has put us on hold when it stops sending media to us.
+ */
+export const isRemoteHoldDirection = (direction: MediaDirection): boolean => {
+  return direction === 'sendonly' || direction === 'inactive';
+};
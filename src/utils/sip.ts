@@ -0,0 +1,74 @@
+import type { Core } from 'sip.js';
+import type { CallEndReason, SipReasonHeader } from '../types';
+
+const BUSY = [486, 600];
+const DECLINED = [603];
+const NO_ANSWER = [408, 480, 487];
+const UNREACHABLE = [404, 410, 484, 485, 604];
+// RFC 3326 cause 200 on a CANCEL: the call was answered by another fork.
+const ANSWERED_ELSEWHERE_CAUSE = 200;
+
+/**
+ * Parses the first `Reason` header of a message, preferring the `SIP` protocol entry.
+ */
+export const parseReasonHeader = (
+  message: Core.IncomingRequestMessage | Core.IncomingResponseMessage
+): SipReasonHeader | undefined => {
+  const values = message
+    .getHeaders('reason')
+    .flatMap((value) => value.split(/,(?=\s*[A-Za-z0-9.-]+\s*;)/));
+  const entries = values.map((value): SipReasonHeader => {
+    const [protocol = '', ...params] = value
+      .split(';')
+      .map((part) => part.trim());
+    const header: SipReasonHeader = { protocol };
+    params.forEach((param) => {
+      const [name = '', rawValue = ''] = param
+        .split('=')
+        .map((part) => part.trim());
+      if (name.toLowerCase() === 'cause' && /^\d+$/.test(rawValue))
+        header.cause = Number(rawValue);
+      if (name.toLowerCase() === 'text')
+        header.text = rawValue.replace(/^"(.*)"$/, '$1');
+    });
+    return header;
+  });
+  return (
+    entries.find((entry) => entry.protocol.toUpperCase() === 'SIP') ??
+    entries[0]
+  );
+};
+
+/**
+ * Maps a final non-2xx response to an outgoing INVITE.
+ * Responses generated internally by sip.js (timeouts, transport errors) carry no raw data.
+ */
+export const getEndReasonFromResponse = (
+  response: Core.IncomingResponseMessage
+): CallEndReason => {
+  const { statusCode = 0, reasonPhrase } = response;
+  if (!response.data)
+    return { type: 'network-error', statusCode, reasonPhrase };
+
+  const reason = parseReasonHeader(response);
+  if (BUSY.includes(statusCode))
+    return { type: 'busy', statusCode, reasonPhrase, reason };
+  if (DECLINED.includes(statusCode))
+    return { type: 'declined', statusCode, reasonPhrase, reason };
+  if (NO_ANSWER.includes(statusCode))
+    return { type: 'no-answer', statusCode, reasonPhrase, reason };
+  if (UNREACHABLE.includes(statusCode))
+    return { type: 'unreachable', statusCode, reasonPhrase, reason };
+  return { type: 'failed', statusCode, reasonPhrase, reason };
+};
+
+export const getEndReasonFromCancel = (
+  request: Core.IncomingRequestMessage
+): CallEndReason => {
+  const reason = parseReasonHeader(request);
+  const type =
+    reason?.cause === ANSWERED_ELSEWHERE_CAUSE
+      ? 'answered-elsewhere'
+      : 'remote-cancelled';
+  return { type, reason };
+};
@@ -1,36 +1,58 @@
 import { jwtDecode } from 'jwt-decode';
-import libphonenumber from "google-libphonenumber";
+import libphonenumber from 'google-libphonenumber';
+import { createLogger } from './logger';
+
+const logger = createLogger('Validation');
 
 export const isTokenValid = (token: string) => {
-    if (!token) {
-        return 'INVALID';
-    }
-    try {
-        const decodedToken: { exp: number } = jwtDecode(token);
-        const expirationTimestamp = decodedToken.exp;
-        if (typeof expirationTimestamp !== 'number') {
-            return 'INVALID';
-        }
-        const currentTimestamp = Math.floor(Date.now() / 1000);
-        return expirationTimestamp > currentTimestamp ? true : 'EXPIRED';
-    } catch (e) {
-        console.log("Error in isTokenValid:", e);
-        return 'INVALID'
+  if (!token) {
+    return 'INVALID';
+  }
+  try {
+    const decodedToken: { exp: number } = jwtDecode(token);
+    const expirationTimestamp = decodedToken.exp;
+    if (typeof expirationTimestamp !== 'number') {
+      return 'INVALID';
     }
-}
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    return expirationTimestamp > currentTimestamp ? true : 'EXPIRED';
+  } catch (e) {
+    logger.debug('Error in isTokenValid:', e);
+    return 'INVALID';
+  }
+};
+
+/**
+ * Returns the JWT `exp` claim in epoch milliseconds, or null if the token cannot be decoded.
+ */
+export const getTokenExpiry = (
+  token: string | null | undefined
+): number | null => {
+  if (!token) return null;
+  try {
+    const { exp } = jwtDecode<{ exp?: number }>(token);
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch (e) {
+    logger.debug('Error in getTokenExpiry:', e);
+    return null;
+  }
+};
+
+/** Strips everything but digits, e.g. `+1 (415) 555-2671` to `14155552671`. */
+export const toDigits = (number: string): string => number.replace(/\D/g, '');
 
 export const validatePhoneNumber = (phoneNumber: string) => {
-    const phoneUtil = libphonenumber.PhoneNumberUtil.getInstance();
-    try {
-        const parsedNumber = phoneUtil.parseAndKeepRawInput(phoneNumber);
-        return phoneUtil.isValidNumber(parsedNumber);
-    } catch (error) {
-        console.log("Error while validating phonenumber as", error);
-        return false;
-    }
+  const phoneUtil = libphonenumber.PhoneNumberUtil.getInstance();
+  try {
+    const parsedNumber = phoneUtil.parseAndKeepRawInput(phoneNumber);
+    return phoneUtil.isValidNumber(parsedNumber);
+  } catch (error) {
+    logger.debug('Error while validating phonenumber as', error);
+    return false;
+  }
 };
 
 export const SessionType = {
-    Incoming: "Incoming" as const,
-    Outgoing: "Outgoing" as const,
-}
\ No newline at end of file
+  Incoming: 'Incoming' as const,
+  Outgoing: 'Outgoing' as const,
+};